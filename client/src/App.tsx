@@ -1,10 +1,15 @@
 import { useState, useEffect } from 'react';
 import io, { Socket } from 'socket.io-client';
+import { CalendarClock, FileDown } from 'lucide-react';
 import { ScanForm } from './components/ScanForm';
 import { ReportDashboard } from './components/ReportDashboard';
+import { TrendsView } from './components/TrendsView';
+import { DiffView } from './components/DiffView';
+import { SchedulesView } from './components/SchedulesView';
+import { API_URL } from './api';
 import './styles/theme.css';
 
-import type { ScoreReport } from './types';
+import type { AuthConfig, CrawlConfig, PageBudgets, ScoreReport, VisualConfig } from './types';
 
 interface ScanProgress {
   message: string;
@@ -16,7 +21,6 @@ interface QueueInfo {
   estimatedWaitTime: number;
 }
 
-const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000';
 const socket: Socket = io(API_URL);
 
 function App() {
@@ -24,6 +28,10 @@ function App() {
   const [progress, setProgress] = useState<ScanProgress>({ message: '', progress: 0 });
   const [report, setReport] = useState<ScoreReport | null>(null);
   const [queueInfo, setQueueInfo] = useState<QueueInfo | null>(null);
+  const [scanId, setScanId] = useState<string | null>(null);
+  const [scanUrl, setScanUrl] = useState<string | null>(null);
+  const [view, setView] = useState<'report' | 'trends' | 'compare'>('report');
+  const [showSchedules, setShowSchedules] = useState(false);
 
   useEffect(() => {
     socket.on('connect', () => console.log('Connected to server'));
@@ -51,6 +59,15 @@ function App() {
       setQueueInfo(null);
     });
 
+    socket.on('scan:cancelled', () => {
+      reset();
+    });
+
+    socket.on('scan:error', (data) => {
+      alert(`Scan failed: ${data.message}`);
+      reset();
+    });
+
     // Check URL for existing scan
     const params = new URLSearchParams(window.location.search);
     const scanId = params.get('scanId');
@@ -63,6 +80,8 @@ function App() {
       socket.off('scan:progress');
       socket.off('queue:update');
       socket.off('scan:complete');
+      socket.off('scan:cancelled');
+      socket.off('scan:error');
     };
   }, []);
 
@@ -71,6 +90,8 @@ function App() {
       const res = await fetch(`${API_URL}/api/scan/${scanId}`);
       if (res.ok) {
         const state = await res.json();
+        setScanId(state.id);
+        setScanUrl(state.url);
         if (state.status === 'SCANNING' || state.status === 'QUEUED') {
           setStatus(state.status);
           setProgress({ message: state.message, progress: state.progress });
@@ -96,19 +117,21 @@ function App() {
     }
   };
 
-  const startScan = async (url: string, devices: string[], pageLimit: number) => {
+  const startScan = async (url: string, devices: string[], pageLimit: number, crawl: CrawlConfig, auth: AuthConfig | undefined, lighthouse: boolean, visual: VisualConfig, scoringProfile: string, budgets: PageBudgets) => {
     // Initial optimistic state - assume scan will start immediately
     setStatus('SCANNING');
     setProgress({ message: 'Requesting scan...', progress: 0 });
+    setScanUrl(url);
     try {
       const res = await fetch(`${API_URL}/api/scan`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ url, devices, pageLimit })
+        body: JSON.stringify({ url, devices, pageLimit, crawl, auth, lighthouse, visual, scoringProfile, budgets })
       });
       if (res.ok) {
         const data = await res.json();
         const scanId = data.scanId;
+        setScanId(scanId);
 
         // Check if scan is starting immediately or queued
         if (data.queuePosition !== undefined && data.estimatedWaitTime !== undefined) {
@@ -130,6 +153,11 @@ function App() {
         window.history.pushState({ path: newUrl }, '', newUrl);
 
         socket.emit('join_scan', scanId);
+      } else {
+        // Validation errors (bad crawl pattern etc.) come back as 400s
+        const data = await res.json().catch(() => ({}));
+        alert(data.error || 'Failed to start scan.');
+        setStatus('IDLE');
       }
     } catch {
       alert('Failed to start scan server might be down.');
@@ -137,9 +165,30 @@ function App() {
     }
   };
 
+  const openScan = (id: string) => {
+    setShowSchedules(false);
+    const newUrl = `${window.location.pathname}?scanId=${id}`;
+    window.history.pushState({ path: newUrl }, '', newUrl);
+    restoreScan(id);
+  };
+
+  const cancelScan = async () => {
+    if (!scanId) return;
+    try {
+      await fetch(`${API_URL}/api/scan/${scanId}`, { method: 'DELETE' });
+    } catch (e) {
+      console.error("Failed to cancel scan", e);
+    }
+    reset();
+  };
+
   const reset = () => {
     setStatus('IDLE');
     setReport(null);
+    setQueueInfo(null);
+    setScanId(null);
+    setScanUrl(null);
+    setView('report');
     // Clear URL param
     window.history.pushState({}, '', window.location.pathname);
   };
@@ -148,11 +197,31 @@ function App() {
     <div className="app-container">
       <header className="main-header">
         <h1>WebAudit<span className="accent">.Ai</span></h1>
-        {status === 'COMPLETE' && <button onClick={reset} className="btn-secondary">New Scan</button>}
+        {status === 'COMPLETE' && (
+          <div className="header-actions">
+            {scanId && (
+              <>
+                <a href={`${API_URL}/api/scan/${scanId}/report.pdf`} className="btn-secondary" download>
+                  <FileDown size={16} /> PDF
+                </a>
+                <a href={`${API_URL}/api/scan/${scanId}/report.html`} className="btn-secondary" download>
+                  <FileDown size={16} /> HTML
+                </a>
+              </>
+            )}
+            <button onClick={reset} className="btn-secondary">New Scan</button>
+          </div>
+        )}
+        {status === 'IDLE' && (
+          <button onClick={() => setShowSchedules(!showSchedules)} className="btn-secondary">
+            {showSchedules ? 'New Scan' : <><CalendarClock size={16} /> Schedules</>}
+          </button>
+        )}
       </header>
 
       <main>
-        {status === 'IDLE' && <ScanForm onStart={startScan} />}
+        {status === 'IDLE' && !showSchedules && <ScanForm onStart={startScan} />}
+        {status === 'IDLE' && showSchedules && <SchedulesView onOpenScan={openScan} />}
 
         {status === 'QUEUED' && (
           <div className="progress-container">
@@ -183,6 +252,7 @@ function App() {
               <div className="progress-bar-fill" style={{ width: `0%` }}></div>
             </div>
             <p className="queue-hint">Your scan will start automatically when a slot opens.</p>
+            <button onClick={cancelScan} className="btn-secondary">Cancel Scan</button>
           </div>
         )}
 
@@ -194,10 +264,21 @@ function App() {
             <div className="progress-bar-bg">
               <div className="progress-bar-fill" style={{ width: `${progress.progress}%` }}></div>
             </div>
+            <button onClick={cancelScan} className="btn-secondary">Cancel Scan</button>
+          </div>
+        )}
+
+        {status === 'COMPLETE' && report && scanUrl && (
+          <div className="view-tabs">
+            <button className={`view-tab ${view === 'report' ? 'active' : ''}`} onClick={() => setView('report')}>Report</button>
+            <button className={`view-tab ${view === 'trends' ? 'active' : ''}`} onClick={() => setView('trends')}>Trends</button>
+            <button className={`view-tab ${view === 'compare' ? 'active' : ''}`} onClick={() => setView('compare')}>Compare</button>
           </div>
         )}
 
-        {status === 'COMPLETE' && report && <ReportDashboard report={report} />}
+        {status === 'COMPLETE' && report && view === 'report' && <ReportDashboard report={report} scanId={scanId} url={scanUrl} onReportChange={setReport} />}
+        {status === 'COMPLETE' && scanUrl && view === 'trends' && <TrendsView url={scanUrl} />}
+        {status === 'COMPLETE' && scanId && scanUrl && view === 'compare' && <DiffView scanId={scanId} url={scanUrl} />}
       </main>
     </div>
   );
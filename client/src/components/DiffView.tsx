@@ -0,0 +1,232 @@
+import React, { useEffect, useState } from 'react';
+import { API_URL } from '../api';
+import { IssueItem } from './ReportDashboard';
+import type { Issue, ReportDiff, ScanHistoryEntry } from '../types';
+
+interface DiffViewProps {
+    scanId: string;
+    url: string;
+}
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+const deltaColor = (delta: number) => {
+    if (delta > 0) return 'var(--success)';
+    if (delta < 0) return 'var(--danger)';
+    return 'var(--text-secondary)';
+};
+
+const IssueGroup: React.FC<{ title: string; issues: Issue[]; color: string }> = ({ title, issues, color }) => (
+    <div className="category-group">
+        <h3 className="category-header" style={{ color }}>
+            {title}
+            <span className="category-count-badge">{issues.length}</span>
+        </h3>
+        {issues.map((issue, idx) => (
+            <IssueItem key={idx} issue={issue} />
+        ))}
+    </div>
+);
+
+export const DiffView: React.FC<DiffViewProps> = ({ scanId, url }) => {
+    const host = new URL(url).hostname;
+    const [candidates, setCandidates] = useState<ScanHistoryEntry[] | null>(null);
+    const [baseId, setBaseId] = useState('');
+    const [diff, setDiff] = useState<ReportDiff | null>(null);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        fetch(`${API_URL}/api/sites/${encodeURIComponent(host)}/scans`)
+            .then(res => res.json())
+            .then(data => {
+                const current = (data.scans as ScanHistoryEntry[]).find(entry => entry.id === scanId);
+                const older = (data.scans as ScanHistoryEntry[])
+                    .filter(entry => entry.id !== scanId && (!current || entry.timestamp < current.timestamp))
+                    .reverse();
+                setCandidates(older);
+                if (older.length > 0) setBaseId(older[0].id);
+            })
+            .catch(() => setError('Could not load earlier scans.'));
+    }, [host, scanId]);
+
+    useEffect(() => {
+        if (!baseId) return;
+        fetch(`${API_URL}/api/diff?base=${encodeURIComponent(baseId)}&head=${encodeURIComponent(scanId)}`)
+            .then(res => {
+                if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+                return res.json();
+            })
+            .then(data => setDiff(data.diff))
+            .catch(() => setError('Could not compare these scans.'));
+    }, [baseId, scanId]);
+
+    if (error) return <div className="empty-state">{error}</div>;
+    if (!candidates) return <div className="empty-state">Loading earlier scans...</div>;
+    if (candidates.length === 0) {
+        return <div className="empty-state">There is no earlier scan of {host} to compare against.</div>;
+    }
+
+    const changedPages = diff ? [...diff.pages].sort((a, b) => (a.delta ?? 0) - (b.delta ?? 0)) : [];
+
+    return (
+        <div className="diff-container">
+            <div className="diff-picker">
+                <label htmlFor="diff-base">Compare against</label>
+                <select id="diff-base" value={baseId} onChange={(e) => setBaseId(e.target.value)}>
+                    {candidates.map(entry => (
+                        <option key={entry.id} value={entry.id}>
+                            {new Date(entry.timestamp).toLocaleString()} (score {entry.overallScore})
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {!diff ? <div className="empty-state">Comparing scans...</div> : (
+                <>
+                    <div className="diff-summary">
+                        <div className="diff-card diff-card-overall">
+                            <h3>Overall</h3>
+                            <div className="diff-scores">{diff.overall.base} → {diff.overall.head}</div>
+                            <div className="diff-delta" style={{ color: deltaColor(diff.overall.delta) }}>{formatDelta(diff.overall.delta)}</div>
+                        </div>
+                        {Object.entries(diff.categories).map(([category, d]) => (
+                            <div key={category} className="diff-card">
+                                <h3>{category}</h3>
+                                <div className="diff-scores">{d.base} → {d.head}</div>
+                                <div className="diff-delta" style={{ color: deltaColor(d.delta) }}>{formatDelta(d.delta)}</div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="pages-section">
+                        <h2>Page Changes ({diff.pages.length})</h2>
+                        <table className="diff-table">
+                            <thead>
+                                <tr>
+                                    <th>URL</th>
+                                    <th>Before</th>
+                                    <th>After</th>
+                                    <th>Change</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {changedPages.map(page => (
+                                    <tr key={page.url}>
+                                        <td className="diff-url" title={page.url}>{page.url}</td>
+                                        <td>{page.baseScore ?? '—'}</td>
+                                        <td>{page.headScore ?? '—'}</td>
+                                        <td style={{ color: deltaColor(page.delta ?? 0) }}>
+                                            {page.status === 'both' ? formatDelta(page.delta!) : page.status === 'added' ? 'New page' : 'Not crawled'}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="issues-section">
+                        <h2>Findings</h2>
+                        <IssueGroup title="New" issues={diff.issues.new} color="var(--danger)" />
+                        <IssueGroup title="Fixed" issues={diff.issues.fixed} color="var(--success)" />
+                        <IssueGroup title="Persisting" issues={diff.issues.persisting} color="var(--text-secondary)" />
+                    </div>
+                </>
+            )}
+
+            <style>{`
+        .diff-container {
+            animation: fadeIn 0.5s ease-out;
+        }
+
+        .diff-picker {
+            display: flex;
+            align-items: center;
+            gap: 1rem;
+            margin-bottom: 2rem;
+        }
+
+        .diff-picker select {
+            flex: 1;
+            padding: 0.5rem 1rem;
+            background: var(--bg-secondary);
+            border: 1px solid var(--border);
+            border-radius: 8px;
+            color: var(--text-primary);
+        }
+
+        .diff-summary {
+            display: grid;
+            grid-template-columns: repeat(auto-fit, minmax(150px, 1fr));
+            gap: 1.5rem;
+            margin-bottom: 3rem;
+        }
+
+        .diff-card {
+            background: var(--bg-secondary);
+            padding: 1.5rem;
+            border-radius: var(--radius);
+            text-align: center;
+            border: 1px solid var(--border);
+        }
+
+        .diff-card-overall {
+            border-color: var(--accent);
+        }
+
+        .diff-card h3 {
+            margin: 0 0 0.5rem 0;
+            font-size: 0.9rem;
+            color: var(--text-secondary);
+        }
+
+        .diff-scores {
+            font-size: 0.9rem;
+            color: var(--text-secondary);
+        }
+
+        .diff-delta {
+            font-size: 1.8rem;
+            font-weight: 700;
+        }
+
+        .diff-container h2 {
+            margin-bottom: 1.5rem;
+            border-bottom: 1px solid var(--border);
+            padding-bottom: 1rem;
+        }
+
+        .diff-table {
+            width: 100%;
+            border-collapse: collapse;
+            margin-bottom: 3rem;
+            table-layout: fixed;
+        }
+
+        .diff-table th,
+        .diff-table td {
+            padding: 0.6rem 1rem;
+            border-bottom: 1px solid var(--border);
+            text-align: left;
+        }
+
+        .diff-table th:not(:first-child),
+        .diff-table td:not(:first-child) {
+            width: 110px;
+        }
+
+        .diff-table th {
+            font-size: 0.75rem;
+            color: var(--text-secondary);
+            text-transform: uppercase;
+        }
+
+        .diff-url {
+            font-family: monospace;
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+      `}</style>
+        </div>
+    );
+};
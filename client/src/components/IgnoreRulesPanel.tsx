@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { API_URL } from '../api';
+import type { IgnoreRule, ScoreReport } from '../types';
+import { triageRequest } from '../triage';
+
+interface IgnoreRulesPanelProps {
+    scanId: string;
+    host: string;
+    report: ScoreReport;
+    onReportChange: (report: ScoreReport) => void;
+}
+
+export const IgnoreRulesPanel: React.FC<IgnoreRulesPanelProps> = ({ scanId, host, report, onReportChange }) => {
+    const [rules, setRules] = useState<IgnoreRule[]>([]);
+
+    // Every rule change ends in a re-triaged report, so reloading on it keeps the list current
+    useEffect(() => {
+        fetch(`${API_URL}/api/sites/${encodeURIComponent(host)}/triage`)
+            .then(res => {
+                if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+                return res.json();
+            })
+            .then(data => setRules(data.rules))
+            .catch(error => console.error('Failed to load ignore rules', error));
+    }, [host, report]);
+
+    const deleteRule = async (rule: IgnoreRule) => {
+        try {
+            await triageRequest(`/api/sites/${encodeURIComponent(host)}/ignore-rules/${rule.id}`, 'DELETE');
+            const { report } = await triageRequest<{ report: ScoreReport }>(`/api/scan/${scanId}/retriage`, 'POST');
+            onReportChange(report);
+        } catch (error) {
+            alert((error as Error).message);
+        }
+    };
+
+    if (rules.length === 0) return null;
+
+    return (
+        <div className="ignore-rules">
+            <h4>Ignore rules for {host}</h4>
+            <ul>
+                {rules.map(rule => (
+                    <li key={rule.id}>
+                        <span>
+                            <strong>{rule.issue}</strong>
+                            {rule.description && <> matching <code>{rule.description}</code></>}
+                            {rule.path ? <> on <code>{rule.path}</code></> : ' on every page'}
+                            {rule.note && <span className="ignore-rule-note"> · {rule.note}</span>}
+                        </span>
+                        <button type="button" className="ignore-rule-delete" onClick={() => deleteRule(rule)} title="Delete ignore rule">
+                            <Trash2 size={16} />
+                        </button>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
@@ -1,10 +1,38 @@
 import React, { useState } from 'react';
-import type { ScoreReport, Issue, PageReport } from '../types';
+import type { ScoreReport, Issue, PageReport, Finding } from '../types';
+import { ScreenshotGallery } from './ScreenshotGallery';
+import { VisualDiffPanel } from './VisualDiffPanel';
+import { SocialPreviewCard } from './SocialPreviewCard';
+import { ResourceBreakdownPanel } from './ResourceBreakdownPanel';
+import { TriageActions } from './TriageActions';
+import { IgnoreRulesPanel } from './IgnoreRulesPanel';
+import { scoringProfileName } from '../scoringProfiles';
+import { TRIAGE_LABELS } from '../triage';
 
 interface ReportDashboardProps {
     report: ScoreReport;
+    scanId?: string | null;
+    url?: string | null;
+    // Triage is only offered when the dashboard can hand the re-scored report back
+    onReportChange?: (report: ScoreReport) => void;
 }
 
+interface TriageContext {
+    scanId: string;
+    host: string;
+    onReportChange: (report: ScoreReport) => void;
+}
+
+const CATEGORY_ORDER = [
+    'Performance',
+    'Accessibility',
+    'SEO',
+    'Responsiveness & Layout',
+    'Errors & Reliability',
+    'Security',
+    'Best Practices'
+] as const;
+
 const CategoryCard: React.FC<{ title: string; score: number }> = ({ title, score }) => {
     let color = 'var(--success)';
     if (score < 50) color = 'var(--danger)';
@@ -21,17 +49,20 @@ const CategoryCard: React.FC<{ title: string; score: number }> = ({ title, score
     );
 };
 
-const IssueItem: React.FC<{ issue: Issue }> = ({ issue }) => {
-    const [expanded, setExpanded] = useState(false);
+const getSeverityColor = (s: string) => {
+    switch (s) {
+        case 'Critical': return 'var(--danger)';
+        case 'Major': return '#f97316'; // Orange
+        case 'Minor': return 'var(--warning)';
+        default: return 'var(--text-secondary)';
+    }
+};
 
-    const getSeverityColor = (s: string) => {
-        switch (s) {
-            case 'Critical': return 'var(--danger)';
-            case 'Major': return '#f97316'; // Orange
-            case 'Minor': return 'var(--warning)';
-            default: return 'var(--text-secondary)';
-        }
-    };
+// URLs listed before the rest hides behind "show all"
+const URL_PREVIEW_COUNT = 3;
+
+export const IssueItem: React.FC<{ issue: Issue }> = ({ issue }) => {
+    const [expanded, setExpanded] = useState(false);
 
     return (
         <div className="issue-item">
@@ -47,13 +78,80 @@ const IssueItem: React.FC<{ issue: Issue }> = ({ issue }) => {
                 <div className="issue-details">
                     <p className="affected-url"><strong>URL:</strong> {issue.affectedUrl}</p>
                     <p className="description">{issue.description}</p>
+                    {issue.wcag && issue.wcag.length > 0 && (
+                        <p className="wcag-criteria"><strong>WCAG:</strong> {issue.wcag.join(', ')}</p>
+                    )}
+                    {issue.elements && issue.elements.length > 0 && (
+                        <ul className="affected-elements">
+                            {issue.elements.map((selector, idx) => (
+                                <li key={idx}><code>{selector}</code></li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const FindingItem: React.FC<{ finding: Finding; triage?: TriageContext }> = ({ finding, triage }) => {
+    const [expanded, setExpanded] = useState(false);
+    const [showAllUrls, setShowAllUrls] = useState(false);
+
+    const urls = showAllUrls ? finding.affectedUrls : finding.affectedUrls.slice(0, URL_PREVIEW_COUNT);
+
+    return (
+        <div className="issue-item">
+            <div className="issue-header" onClick={() => setExpanded(!expanded)}>
+                <span className="severity-badge" style={{ background: getSeverityColor(finding.severity) }}>
+                    {finding.severity}
+                </span>
+                <span className="issue-title">{finding.title}</span>
+                {finding.triage && (
+                    <span className="triage-badge" title={finding.triage.note}>{TRIAGE_LABELS[finding.triage.status]}</span>
+                )}
+                {finding.affectedUrls.length > 1 && (
+                    <span className="finding-count">{finding.affectedUrls.length} pages</span>
+                )}
+                <span className="toggle-icon">{expanded ? '−' : '+'}</span>
+            </div>
+
+            {expanded && (
+                <div className="issue-details">
+                    <p className="description">{finding.description}</p>
+                    {finding.wcag && finding.wcag.length > 0 && (
+                        <p className="wcag-criteria"><strong>WCAG:</strong> {finding.wcag.join(', ')}</p>
+                    )}
+                    {finding.elements && finding.elements.length > 0 && (
+                        <ul className="affected-elements">
+                            {finding.elements.map((selector, idx) => (
+                                <li key={idx}><code>{selector}</code></li>
+                            ))}
+                        </ul>
+                    )}
+                    <div className="finding-urls">
+                        <strong>
+                            {finding.affectedUrls.length === 1 ? 'URL' : `Affected pages (${finding.affectedUrls.length})`}
+                            {finding.occurrences > finding.affectedUrls.length && `, ${finding.occurrences} occurrences`}
+                        </strong>
+                        <ul>
+                            {urls.map(url => <li key={url} className="affected-url">{url}</li>)}
+                        </ul>
+                        {finding.affectedUrls.length > URL_PREVIEW_COUNT && (
+                            <button type="button" className="finding-urls-toggle" onClick={() => setShowAllUrls(!showAllUrls)}>
+                                {showAllUrls ? 'Show fewer' : `Show all ${finding.affectedUrls.length} pages`}
+                            </button>
+                        )}
+                    </div>
+                    {finding.triage?.note && <p className="triage-note-text"><strong>Note:</strong> {finding.triage.note}</p>}
+                    {triage && <TriageActions {...triage} finding={finding} />}
                 </div>
             )}
         </div>
     );
 };
 
-const PageAccordion: React.FC<{ page: PageReport }> = ({ page }) => {
+const PageAccordion: React.FC<{ page: PageReport; scanId?: string | null }> = ({ page, scanId }) => {
     const [expanded, setExpanded] = useState(false);
 
     const getScoreColor = (score: number) => {
@@ -103,6 +201,43 @@ const PageAccordion: React.FC<{ page: PageReport }> = ({ page }) => {
                         </div>
                     </div>
 
+                    {page.lighthouse && (
+                        <div className="lighthouse-scores">
+                            <h4>Lighthouse</h4>
+                            <div className="page-metrics-grid">
+                                {([
+                                    ['Performance', page.lighthouse.performance],
+                                    ['Accessibility', page.lighthouse.accessibility],
+                                    ['Best Practices', page.lighthouse.bestPractices],
+                                    ['SEO', page.lighthouse.seo]
+                                ] as const).map(([label, value]) => (
+                                    <div key={label} className="metric-card">
+                                        <div className="metric-label">{label}</div>
+                                        <div className="metric-value" style={{ color: value !== undefined ? getScoreColor(value) : undefined }}>
+                                            {value ?? 'N/A'}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
+                    {page.metrics.resources && (
+                        <ResourceBreakdownPanel resources={page.metrics.resources} />
+                    )}
+
+                    {page.socialPreview && (
+                        <SocialPreviewCard preview={page.socialPreview} structuredData={page.structuredData} />
+                    )}
+
+                    {scanId && page.visualDiffs && page.visualDiffs.length > 0 && (
+                        <VisualDiffPanel scanId={scanId} url={page.url} diffs={page.visualDiffs} />
+                    )}
+
+                    {scanId && page.screenshots && page.screenshots.length > 0 && (
+                        <ScreenshotGallery scanId={scanId} screenshots={page.screenshots} />
+                    )}
+
                     {page.issues.length > 0 && (
                         <div className="page-issue-preview">
                             <h4>Issues on this page ({page.issues.length})</h4>
@@ -117,8 +252,43 @@ const PageAccordion: React.FC<{ page: PageReport }> = ({ page }) => {
     );
 };
 
-export const ReportDashboard: React.FC<ReportDashboardProps> = ({ report }) => {
+const FindingGroups: React.FC<{ findings: Finding[]; triage?: TriageContext }> = ({ findings, triage }) => (
+    <div className="issues-list">
+        {CATEGORY_ORDER.map(category => {
+            const categoryFindings = findings.filter(finding => finding.category === category);
+            if (categoryFindings.length === 0) return null;
+
+            return (
+                <div key={category} className="category-group">
+                    <h3 className="category-header">
+                        {category}
+                        <span className="category-count-badge">{categoryFindings.length}</span>
+                    </h3>
+                    {categoryFindings.map((finding, idx) => (
+                        <FindingItem key={idx} finding={finding} triage={triage} />
+                    ))}
+                </div>
+            );
+        })}
+    </div>
+);
+
+export const ReportDashboard: React.FC<ReportDashboardProps> = ({ report, scanId, url, onReportChange }) => {
+    const [showTriaged, setShowTriaged] = useState(false);
     const score = report.overallScore;
+    // Older reports only have the per-page issues
+    const findings: Finding[] = report.findings ?? report.details.map(({ affectedUrl, fingerprint, ...issue }) => ({
+        ...issue,
+        ruleId: issue.ruleId ?? '',
+        affectedUrls: [affectedUrl],
+        fingerprints: fingerprint ? [fingerprint] : [],
+        occurrences: 1
+    }));
+    const openFindings = findings.filter(finding => !finding.triage);
+    const triagedFindings = findings.filter(finding => finding.triage);
+    const triage: TriageContext | undefined = scanId && url && onReportChange
+        ? { scanId, host: new URL(url).hostname, onReportChange }
+        : undefined;
     let scoreColor = 'var(--success)';
     if (score < 50) scoreColor = 'var(--danger)';
     else if (score < 80) scoreColor = 'var(--warning)';
@@ -143,6 +313,7 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({ report }) => {
                         <text x="18" y="20.35" className="percentage">{score}</text>
                     </svg>
                     <div className="score-label">Overall Score</div>
+                    {report.profile && <div className="score-profile">{scoringProfileName(report.profile)} profile</div>}
                 </div>
 
                 <div className="category-grid">
@@ -157,43 +328,30 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({ report }) => {
                     <h2>Page Breakdown ({report.pages.length})</h2>
                     <div className="pages-list">
                         {[...report.pages].sort((a, b) => a.score - b.score).map((page, idx) => (
-                            <PageAccordion key={idx} page={page} />
+                            <PageAccordion key={idx} page={page} scanId={scanId} />
                         ))}
                     </div>
                 </div>
             )}
 
             <div className="issues-section">
-                <h2>Detailed Findings ({report.details.length})</h2>
-                {report.details.length === 0 ? (
+                <h2>Detailed Findings ({openFindings.length})</h2>
+                {openFindings.length === 0 ? (
                     <div className="empty-state">No issues found! Great job.</div>
                 ) : (
-                    <div className="issues-list">
-                        {([
-                            'Performance',
-                            'Accessibility',
-                            'SEO',
-                            'Responsiveness & Layout',
-                            'Errors & Reliability',
-                            'Best Practices'
-                        ] as const).map(category => {
-                            const categoryIssues = report.details.filter(issue => issue.category === category);
-                            if (categoryIssues.length === 0) return null;
-
-                            return (
-                                <div key={category} className="category-group">
-                                    <h3 className="category-header">
-                                        {category}
-                                        <span className="category-count-badge">{categoryIssues.length}</span>
-                                    </h3>
-                                    {categoryIssues.map((issue, idx) => (
-                                        <IssueItem key={idx} issue={issue} />
-                                    ))}
-                                </div>
-                            );
-                        })}
+                    <FindingGroups findings={openFindings} triage={triage} />
+                )}
+
+                {triagedFindings.length > 0 && (
+                    <div className="triaged-section">
+                        <button type="button" className="triaged-toggle" onClick={() => setShowTriaged(!showTriaged)}>
+                            Triaged findings, not scored ({triagedFindings.length}) {showTriaged ? '−' : '+'}
+                        </button>
+                        {showTriaged && <FindingGroups findings={triagedFindings} triage={triage} />}
                     </div>
                 )}
+
+                {triage && <IgnoreRulesPanel {...triage} report={report} />}
             </div>
 
             <style>{`
@@ -240,6 +398,13 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({ report }) => {
             font-weight: 600;
         }
 
+        .score-profile {
+            text-align: center;
+            margin-top: 0.3rem;
+            font-size: 0.8rem;
+            color: var(--text-secondary);
+        }
+
         .category-grid {
             display: grid;
             grid-template-columns: repeat(auto-fit, minmax(150px, 1fr));
@@ -282,53 +447,6 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({ report }) => {
              padding-bottom: 1rem;
         }
 
-        .issue-item {
-            background: var(--bg-secondary);
-            border-radius: var(--radius);
-            margin-bottom: 1rem;
-            border: 1px solid var(--border);
-            overflow: hidden;
-        }
-
-        .issue-header {
-            padding: 1rem;
-            display: flex;
-            align-items: center;
-            cursor: pointer;
-            gap: 1rem;
-            transition: background 0.2s;
-        }
-        .issue-header:hover {
-            background: rgba(255,255,255,0.02);
-        }
-
-        .severity-badge {
-            padding: 0.2rem 0.6rem;
-            border-radius: 4px;
-            font-size: 0.75rem;
-            font-weight: 700;
-            color: #fff;
-            text-transform: uppercase;
-        }
-
-        .issue-title {
-            flex: 1;
-            font-weight: 500;
-        }
-
-        .issue-details {
-            padding: 1rem;
-            background: rgba(0,0,0,0.2);
-            border-top: 1px solid var(--border);
-            font-size: 0.9rem;
-            color: var(--text-secondary);
-        }
-
-        .affected-url {
-            font-family: monospace;
-            margin-bottom: 0.5rem;
-        }
-        
         @media (max-width: 900px) {
             .score-overview {
                 grid-template-columns: 1fr;
@@ -419,6 +537,12 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({ report }) => {
             font-size: 1.1rem;
         }
 
+        .lighthouse-scores h4 {
+            font-size: 0.9rem;
+            margin: 0 0 0.5rem 0;
+            color: var(--text-secondary);
+        }
+
         .page-issue-preview {
             margin-top: 1rem;
         }
@@ -429,28 +553,6 @@ export const ReportDashboard: React.FC<ReportDashboardProps> = ({ report }) => {
         }
 
         
-        .category-group {
-            margin-bottom: 2rem;
-        }
-        
-        .category-header {
-            font-size: 1.2rem;
-            margin-bottom: 1rem;
-            color: var(--text-primary);
-            display: flex;
-            align-items: center;
-            gap: 0.5rem;
-        }
-
-        .category-count-badge {
-            background: var(--bg-secondary);
-            border: 1px solid var(--border);
-            padding: 0.1rem 0.5rem;
-            border-radius: 12px;
-            font-size: 0.8rem;
-            color: var(--text-secondary);
-        }
-
         @keyframes progress {
             0% { stroke-dasharray: 0 100; }
         }
@@ -0,0 +1,163 @@
+import React from 'react';
+import type { ResourceBreakdown, ResourceKind } from '../types';
+
+const KIND_LABELS: Record<ResourceKind, string> = {
+    document: 'HTML',
+    script: 'JavaScript',
+    stylesheet: 'CSS',
+    image: 'Images',
+    font: 'Fonts',
+    media: 'Media',
+    other: 'Other'
+};
+
+const KIND_COLORS: Record<ResourceKind, string> = {
+    document: '#94a3b8',
+    script: '#f59e0b',
+    stylesheet: '#6366f1',
+    image: '#10b981',
+    font: '#ec4899',
+    media: '#06b6d4',
+    other: '#64748b'
+};
+
+const formatBytes = (bytes: number) =>
+    bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+export const ResourceBreakdownPanel: React.FC<{ resources: ResourceBreakdown }> = ({ resources }) => {
+    const kinds = (Object.keys(KIND_LABELS) as ResourceKind[]).filter(kind => resources.byKind[kind].requests > 0);
+    const share = (bytes: number) => (resources.bytes > 0 ? (bytes / resources.bytes) * 100 : 0);
+
+    return (
+        <div className="resource-breakdown">
+            <h4>Page Weight: {formatBytes(resources.bytes)} in {resources.requests} requests</h4>
+
+            <div className="resource-bar">
+                {kinds.map(kind => (
+                    <div
+                        key={kind}
+                        style={{ width: `${share(resources.byKind[kind].bytes)}%`, background: KIND_COLORS[kind] }}
+                        title={`${KIND_LABELS[kind]}: ${formatBytes(resources.byKind[kind].bytes)}`}
+                    />
+                ))}
+            </div>
+
+            <div className="resource-kinds">
+                {kinds.map(kind => (
+                    <div key={kind} className="resource-kind">
+                        <span className="resource-swatch" style={{ background: KIND_COLORS[kind] }} />
+                        {KIND_LABELS[kind]} <strong>{formatBytes(resources.byKind[kind].bytes)}</strong>
+                        <small>{resources.byKind[kind].requests} req</small>
+                    </div>
+                ))}
+            </div>
+
+            <div className="resource-parties">
+                First-party <strong>{formatBytes(resources.firstParty.bytes)}</strong> ({resources.firstParty.requests} requests) ·
+                Third-party <strong>{formatBytes(resources.thirdParty.bytes)}</strong> ({resources.thirdParty.requests} requests)
+            </div>
+
+            {resources.largest.length > 0 && (
+                <table className="resource-largest">
+                    <thead>
+                        <tr>
+                            <th>Largest resources</th>
+                            <th>Type</th>
+                            <th>Size</th>
+                            <th>Time</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {resources.largest.map((entry, idx) => (
+                            <tr key={idx}>
+                                <td className="resource-url" title={entry.url}>
+                                    {entry.url}
+                                    {entry.thirdParty && <span className="resource-third-party">3rd party</span>}
+                                </td>
+                                <td>{KIND_LABELS[entry.kind]}</td>
+                                <td>{formatBytes(entry.transferSize)}</td>
+                                <td>{entry.duration >= 0 ? `${entry.duration}ms` : '—'}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            <style>{`
+        .resource-breakdown {
+            margin-bottom: 1.5rem;
+            padding-bottom: 1.5rem;
+            border-bottom: 1px solid var(--border);
+        }
+        .resource-breakdown h4 {
+            font-size: 0.9rem;
+            margin: 0 0 0.5rem 0;
+            color: var(--text-secondary);
+        }
+        .resource-bar {
+            display: flex;
+            height: 10px;
+            border-radius: 5px;
+            overflow: hidden;
+            background: rgba(255, 255, 255, 0.05);
+        }
+        .resource-kinds {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 0.4rem 1rem;
+            margin: 0.6rem 0;
+            font-size: 0.85rem;
+        }
+        .resource-kind small {
+            margin-left: 0.3rem;
+            color: var(--text-secondary);
+        }
+        .resource-swatch {
+            display: inline-block;
+            width: 10px;
+            height: 10px;
+            border-radius: 2px;
+            margin-right: 0.35rem;
+        }
+        .resource-parties {
+            font-size: 0.85rem;
+            color: var(--text-secondary);
+            margin-bottom: 0.75rem;
+        }
+        .resource-largest {
+            width: 100%;
+            border-collapse: collapse;
+            font-size: 0.8rem;
+            table-layout: fixed;
+        }
+        .resource-largest th,
+        .resource-largest td {
+            padding: 0.3rem 0.5rem;
+            text-align: left;
+            border-bottom: 1px solid var(--border);
+        }
+        .resource-largest th:not(:first-child),
+        .resource-largest td:not(:first-child) {
+            width: 6rem;
+        }
+        .resource-largest th {
+            color: var(--text-secondary);
+            font-weight: 500;
+        }
+        .resource-url {
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+        .resource-third-party {
+            margin-left: 0.4rem;
+            padding: 0 0.4rem;
+            border: 1px solid var(--border);
+            border-radius: 8px;
+            font-size: 0.7rem;
+            color: var(--text-secondary);
+        }
+      `}</style>
+        </div>
+    );
+};
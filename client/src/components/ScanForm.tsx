@@ -1,26 +1,32 @@
 import React, { useState } from 'react';
-import { Smartphone, Tablet, Monitor, Lock } from 'lucide-react';
+import { Lock, ChevronDown, ChevronUp } from 'lucide-react';
+import type { AuthConfig, BudgetName, CrawlConfig, LoginStep, PageBudgets, VisualConfig } from '../types';
+import { DEVICES } from '../devices';
+import { SCORING_PROFILES } from '../scoringProfiles';
 
 interface ScanFormProps {
-    onStart: (url: string, devices: string[], pageLimit: number) => void;
+    onStart: (url: string, devices: string[], pageLimit: number, crawl: CrawlConfig, auth: AuthConfig | undefined, lighthouse: boolean, visual: VisualConfig, scoringProfile: string, budgets: PageBudgets) => void;
 }
 
-interface Device {
-    id: string;
-    name: string;
-    width: number;
-    icon: React.ComponentType<{ size?: number; strokeWidth?: number }>;
-}
+type AuthMethod = 'none' | 'basic' | 'login' | 'headers' | 'storageState';
+
+const EMPTY_LOGIN: LoginStep = {
+    url: '',
+    usernameSelector: 'input[type="email"], input[name="username"]',
+    passwordSelector: 'input[type="password"]',
+    submitSelector: 'button[type="submit"]',
+    username: '',
+    password: ''
+};
 
-const DEVICES: Device[] = [
-    { id: 'small-mobile', name: 'Small Mobile', width: 375, icon: Smartphone },
-    { id: 'mobile', name: 'Mobile', width: 390, icon: Smartphone },
-    { id: 'big-mobile', name: 'Big Mobile', width: 430, icon: Smartphone },
-    { id: 'tablet-small', name: 'Tablet Small', width: 768, icon: Tablet },
-    { id: 'tablet-normal', name: 'Tablet Normal', width: 1024, icon: Tablet },
-    { id: 'desktop-small', name: 'Desktop Small', width: 1280, icon: Monitor },
-    { id: 'desktop-medium', name: 'Desktop Medium', width: 1366, icon: Monitor },
-    { id: 'desktop-normal', name: 'Desktop Normal', width: 1920, icon: Monitor }
+// Fonts and media budgets are left to the API and CLI, they rarely need one
+const BUDGET_FIELDS: { name: BudgetName; label: string; placeholder: string }[] = [
+    { name: 'total', label: 'Page weight budget', placeholder: 'e.g. 2MB' },
+    { name: 'js', label: 'JavaScript budget', placeholder: 'e.g. 400KB' },
+    { name: 'css', label: 'CSS budget', placeholder: 'e.g. 100KB' },
+    { name: 'images', label: 'Images budget', placeholder: 'e.g. 1MB' },
+    { name: 'thirdParty', label: 'Third-party budget', placeholder: 'e.g. 500KB' },
+    { name: 'requests', label: 'Request budget (count)', placeholder: 'e.g. 80' }
 ];
 
 export const ScanForm: React.FC<ScanFormProps> = ({ onStart }) => {
@@ -28,6 +34,24 @@ export const ScanForm: React.FC<ScanFormProps> = ({ onStart }) => {
     const [selectedDevices, setSelectedDevices] = useState<string[]>(['mobile', 'tablet-normal', 'desktop-normal']);
     const [pageLimit, setPageLimit] = useState<number>(20);
     const [error, setError] = useState('');
+    const [showAdvanced, setShowAdvanced] = useState(false);
+    const [runLighthouse, setRunLighthouse] = useState(false);
+    const [maxDepth, setMaxDepth] = useState<number>(3);
+    const [includePatterns, setIncludePatterns] = useState('');
+    const [excludePatterns, setExcludePatterns] = useState('');
+    const [followSubdomains, setFollowSubdomains] = useState(false);
+    const [checkExternalLinks, setCheckExternalLinks] = useState(true);
+    const [stripQueryParams, setStripQueryParams] = useState('utm_*, gclid, fbclid, msclkid');
+    const [trailingSlash, setTrailingSlash] = useState<'keep' | 'add' | 'remove'>('keep');
+    const [maskSelectors, setMaskSelectors] = useState('');
+    const [visualThreshold, setVisualThreshold] = useState<number>(1);
+    const [budgets, setBudgets] = useState<PageBudgets>({});
+    const [scoringProfile, setScoringProfile] = useState(SCORING_PROFILES[0].id);
+    const [authMethod, setAuthMethod] = useState<AuthMethod>('none');
+    const [basicAuth, setBasicAuth] = useState({ username: '', password: '' });
+    const [login, setLogin] = useState<LoginStep>(EMPTY_LOGIN);
+    const [headersText, setHeadersText] = useState('');
+    const [storageStateText, setStorageStateText] = useState('');
 
     const toggleDevice = (deviceId: string) => {
         setSelectedDevices(prev =>
@@ -38,6 +62,47 @@ export const ScanForm: React.FC<ScanFormProps> = ({ onStart }) => {
         setError('');
     };
 
+    // Returns null after reporting a problem through setError
+    const buildAuth = (): AuthConfig | undefined | null => {
+        switch (authMethod) {
+            case 'basic':
+                if (!basicAuth.username || !basicAuth.password) {
+                    setError('Please enter a username and password for basic auth');
+                    return null;
+                }
+                return { basic: basicAuth };
+            case 'login':
+                if (!login.url || !login.username || !login.password) {
+                    setError('Please enter the login page URL, username and password');
+                    return null;
+                }
+                return { login: { ...login, successSelector: login.successSelector || undefined } };
+            case 'headers': {
+                const headers: Record<string, string> = {};
+                for (const line of headersText.split('\n').map(l => l.trim()).filter(Boolean)) {
+                    const separator = line.indexOf(':');
+                    if (separator === -1) {
+                        setError(`Header "${line}" should look like "Name: value"`);
+                        return null;
+                    }
+                    headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+                }
+                return { headers };
+            }
+            case 'storageState':
+                try {
+                    const parsed = JSON.parse(storageStateText);
+                    // A bare cookie export is accepted as well as a full storage state
+                    return Array.isArray(parsed) ? { cookies: parsed } : { storageState: parsed };
+                } catch {
+                    setError('Cookies / storage state must be valid JSON');
+                    return null;
+                }
+            default:
+                return undefined;
+        }
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
 
@@ -55,7 +120,32 @@ export const ScanForm: React.FC<ScanFormProps> = ({ onStart }) => {
         if (!url.startsWith('http')) {
             formattedUrl = `https://${url}`;
         }
-        onStart(formattedUrl, selectedDevices, pageLimit);
+
+        const lines = (value: string) => value.split('\n').map(l => l.trim()).filter(Boolean);
+        const crawl: CrawlConfig = {
+            maxDepth,
+            include: lines(includePatterns),
+            exclude: lines(excludePatterns),
+            followSubdomains,
+            checkExternalLinks,
+            stripQueryParams: stripQueryParams.split(',').map(p => p.trim()).filter(Boolean),
+            trailingSlash
+        };
+
+        const auth = buildAuth();
+        if (auth === null) return;
+
+        const visual: VisualConfig = {
+            mask: lines(maskSelectors),
+            threshold: visualThreshold / 100
+        };
+
+        // Empty fields mean no budget
+        const pageBudgets: PageBudgets = Object.fromEntries(
+            Object.entries(budgets).map(([name, value]) => [name, value?.trim()]).filter(([, value]) => value)
+        );
+
+        onStart(formattedUrl, selectedDevices, pageLimit, crawl, auth, runLighthouse, visual, scoringProfile, pageBudgets);
     };
 
     return (
@@ -105,6 +195,207 @@ export const ScanForm: React.FC<ScanFormProps> = ({ onStart }) => {
                 </div>
             </div>
 
+            <label className="lighthouse-toggle">
+                <input
+                    type="checkbox"
+                    checked={runLighthouse}
+                    onChange={(e) => setRunLighthouse(e.target.checked)}
+                />
+                Also run a Lighthouse audit on every page (slower)
+            </label>
+
+            <div className="advanced-options">
+                <button type="button" className="advanced-toggle" onClick={() => setShowAdvanced(!showAdvanced)}>
+                    Advanced crawl options
+                    {showAdvanced ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                </button>
+
+                {showAdvanced && (
+                    <div className="advanced-grid">
+                        <label className="advanced-field advanced-field-wide">
+                            <span>Scoring profile</span>
+                            <select value={scoringProfile} onChange={(e) => setScoringProfile(e.target.value)}>
+                                {SCORING_PROFILES.map(profile => (
+                                    <option key={profile.id} value={profile.id}>{profile.name} — {profile.description}</option>
+                                ))}
+                            </select>
+                        </label>
+
+                        <label className="advanced-field">
+                            <span>Max link depth</span>
+                            <input
+                                type="number"
+                                min={0}
+                                max={10}
+                                value={maxDepth}
+                                onChange={(e) => setMaxDepth(Number(e.target.value))}
+                            />
+                        </label>
+
+                        <label className="advanced-field">
+                            <span>Trailing slashes</span>
+                            <select value={trailingSlash} onChange={(e) => setTrailingSlash(e.target.value as 'keep' | 'add' | 'remove')}>
+                                <option value="keep">Keep as linked</option>
+                                <option value="remove">Remove (/about/ → /about)</option>
+                                <option value="add">Add (/about → /about/)</option>
+                            </select>
+                        </label>
+
+                        <label className="advanced-field advanced-field-wide">
+                            <span>Include paths (one per line, glob or /regex/)</span>
+                            <textarea
+                                rows={3}
+                                placeholder="/blog/**"
+                                value={includePatterns}
+                                onChange={(e) => setIncludePatterns(e.target.value)}
+                            />
+                        </label>
+
+                        <label className="advanced-field advanced-field-wide">
+                            <span>Exclude paths (one per line, glob or /regex/)</span>
+                            <textarea
+                                rows={3}
+                                placeholder="/tag/*"
+                                value={excludePatterns}
+                                onChange={(e) => setExcludePatterns(e.target.value)}
+                            />
+                        </label>
+
+                        <label className="advanced-field advanced-field-wide">
+                            <span>Ignore query parameters (comma separated, * wildcard)</span>
+                            <input
+                                type="text"
+                                value={stripQueryParams}
+                                onChange={(e) => setStripQueryParams(e.target.value)}
+                            />
+                        </label>
+
+                        <label className="advanced-checkbox">
+                            <input
+                                type="checkbox"
+                                checked={followSubdomains}
+                                onChange={(e) => setFollowSubdomains(e.target.checked)}
+                            />
+                            Follow links to subdomains
+                        </label>
+
+                        <label className="advanced-checkbox">
+                            <input
+                                type="checkbox"
+                                checked={checkExternalLinks}
+                                onChange={(e) => setCheckExternalLinks(e.target.checked)}
+                            />
+                            Check links to other sites
+                        </label>
+
+                        <label className="advanced-field advanced-field-wide">
+                            <span>Mask dynamic regions in screenshots (CSS selectors, one per line)</span>
+                            <textarea
+                                rows={2}
+                                placeholder=".carousel"
+                                value={maskSelectors}
+                                onChange={(e) => setMaskSelectors(e.target.value)}
+                            />
+                        </label>
+
+                        <label className="advanced-field">
+                            <span>Visual change threshold (% of pixels)</span>
+                            <input
+                                type="number"
+                                min={0}
+                                max={100}
+                                step={0.5}
+                                value={visualThreshold}
+                                onChange={(e) => setVisualThreshold(Number(e.target.value))}
+                            />
+                        </label>
+
+                        {BUDGET_FIELDS.map(field => (
+                            <label key={field.name} className="advanced-field">
+                                <span>{field.label}</span>
+                                <input
+                                    type="text"
+                                    placeholder={field.placeholder}
+                                    value={budgets[field.name] || ''}
+                                    onChange={(e) => setBudgets({ ...budgets, [field.name]: e.target.value })}
+                                />
+                            </label>
+                        ))}
+
+                        <label className="advanced-field advanced-field-wide">
+                            <span>Authentication</span>
+                            <select value={authMethod} onChange={(e) => setAuthMethod(e.target.value as AuthMethod)}>
+                                <option value="none">None (public pages only)</option>
+                                <option value="basic">HTTP basic auth</option>
+                                <option value="login">Login form</option>
+                                <option value="headers">Extra request headers</option>
+                                <option value="storageState">Cookies / storage state</option>
+                            </select>
+                        </label>
+
+                        {authMethod === 'basic' && (
+                            <>
+                                <label className="advanced-field">
+                                    <span>Username</span>
+                                    <input type="text" autoComplete="off" value={basicAuth.username} onChange={(e) => setBasicAuth({ ...basicAuth, username: e.target.value })} />
+                                </label>
+                                <label className="advanced-field">
+                                    <span>Password</span>
+                                    <input type="password" autoComplete="new-password" value={basicAuth.password} onChange={(e) => setBasicAuth({ ...basicAuth, password: e.target.value })} />
+                                </label>
+                            </>
+                        )}
+
+                        {authMethod === 'login' && (
+                            <>
+                                <label className="advanced-field advanced-field-wide">
+                                    <span>Login page URL</span>
+                                    <input type="text" placeholder="https://example.com/login" value={login.url} onChange={(e) => setLogin({ ...login, url: e.target.value })} />
+                                </label>
+                                <label className="advanced-field">
+                                    <span>Username</span>
+                                    <input type="text" autoComplete="off" value={login.username} onChange={(e) => setLogin({ ...login, username: e.target.value })} />
+                                </label>
+                                <label className="advanced-field">
+                                    <span>Password</span>
+                                    <input type="password" autoComplete="new-password" value={login.password} onChange={(e) => setLogin({ ...login, password: e.target.value })} />
+                                </label>
+                                <label className="advanced-field">
+                                    <span>Username field selector</span>
+                                    <input type="text" value={login.usernameSelector} onChange={(e) => setLogin({ ...login, usernameSelector: e.target.value })} />
+                                </label>
+                                <label className="advanced-field">
+                                    <span>Password field selector</span>
+                                    <input type="text" value={login.passwordSelector} onChange={(e) => setLogin({ ...login, passwordSelector: e.target.value })} />
+                                </label>
+                                <label className="advanced-field">
+                                    <span>Submit button selector</span>
+                                    <input type="text" value={login.submitSelector} onChange={(e) => setLogin({ ...login, submitSelector: e.target.value })} />
+                                </label>
+                                <label className="advanced-field">
+                                    <span>Logged-in element selector (optional)</span>
+                                    <input type="text" placeholder="#account-menu" value={login.successSelector || ''} onChange={(e) => setLogin({ ...login, successSelector: e.target.value })} />
+                                </label>
+                            </>
+                        )}
+
+                        {authMethod === 'headers' && (
+                            <label className="advanced-field advanced-field-wide">
+                                <span>Headers (one per line)</span>
+                                <textarea rows={3} placeholder="Authorization: Bearer ..." value={headersText} onChange={(e) => setHeadersText(e.target.value)} />
+                            </label>
+                        )}
+
+                        {authMethod === 'storageState' && (
+                            <label className="advanced-field advanced-field-wide">
+                                <span>Cookie list or Playwright storage state (JSON)</span>
+                                <textarea rows={5} placeholder='{"cookies": [...], "origins": []}' value={storageStateText} onChange={(e) => setStorageStateText(e.target.value)} />
+                            </label>
+                        )}
+                    </div>
+                )}
+            </div>
+
             <form onSubmit={handleSubmit} className="url-form">
                 <input
                     type="text"
@@ -280,6 +571,80 @@ export const ScanForm: React.FC<ScanFormProps> = ({ onStart }) => {
             font-size: 0.8rem;
         }
 
+        .lighthouse-toggle {
+            display: inline-flex;
+            align-items: center;
+            gap: 0.5rem;
+            margin-bottom: 1.5rem;
+            color: var(--text-primary);
+            cursor: pointer;
+        }
+
+        .advanced-options {
+            max-width: 700px;
+            margin: 0 auto 2rem auto;
+        }
+
+        .advanced-toggle {
+            display: inline-flex;
+            align-items: center;
+            gap: 0.5rem;
+            background: none;
+            border: none;
+            color: var(--text-secondary);
+            font-size: 0.9rem;
+            cursor: pointer;
+        }
+
+        .advanced-toggle:hover {
+            color: var(--accent);
+        }
+
+        .advanced-grid {
+            display: grid;
+            grid-template-columns: 1fr 1fr;
+            gap: 1rem;
+            margin-top: 1rem;
+            text-align: left;
+        }
+
+        .advanced-field {
+            display: flex;
+            flex-direction: column;
+            gap: 0.4rem;
+            font-size: 0.85rem;
+            color: var(--text-secondary);
+        }
+
+        .advanced-field-wide {
+            grid-column: 1 / -1;
+        }
+
+        .advanced-field input,
+        .advanced-field select,
+        .advanced-field textarea {
+            padding: 0.6rem 0.8rem;
+            background: var(--bg-secondary);
+            border: 1px solid var(--border);
+            border-radius: 8px;
+            color: var(--text-primary);
+            font-family: inherit;
+            font-size: 0.9rem;
+        }
+
+        .advanced-field textarea {
+            font-family: monospace;
+            resize: vertical;
+        }
+
+        .advanced-checkbox {
+            display: flex;
+            align-items: center;
+            gap: 0.5rem;
+            font-size: 0.9rem;
+            color: var(--text-primary);
+        }
+
         .url-form {
             display: flex;
             justify-content: center;
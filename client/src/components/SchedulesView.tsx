@@ -0,0 +1,343 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { API_URL } from '../api';
+import { DEVICES } from '../devices';
+import { SCORING_PROFILES, scoringProfileName } from '../scoringProfiles';
+import type { ScanSchedule } from '../types';
+
+interface SchedulesViewProps {
+    onOpenScan: (scanId: string) => void;
+}
+
+// Schedules run in UTC on the server
+const CRON_PRESETS = [
+    { label: 'Every morning (06:00 UTC)', cron: '0 6 * * *' },
+    { label: 'Weekday mornings (06:00 UTC)', cron: '0 6 * * MON-FRI' },
+    { label: 'Every Monday (06:00 UTC)', cron: '0 6 * * MON' },
+    { label: 'Every hour', cron: '0 * * * *' }
+];
+
+const formatDateTime = (timestamp?: number | null) =>
+    timestamp ? new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' }) : '—';
+
+export const SchedulesView: React.FC<SchedulesViewProps> = ({ onOpenScan }) => {
+    const [schedules, setSchedules] = useState<ScanSchedule[] | null>(null);
+    const [error, setError] = useState('');
+    const [url, setUrl] = useState('');
+    const [devices, setDevices] = useState<string[]>(['mobile', 'desktop-normal']);
+    const [pageLimit, setPageLimit] = useState<number>(20);
+    const [cron, setCron] = useState(CRON_PRESETS[0].cron);
+    const [scoringProfile, setScoringProfile] = useState(SCORING_PROFILES[0].id);
+    const [saving, setSaving] = useState(false);
+
+    const loadSchedules = useCallback(() => {
+        fetch(`${API_URL}/api/schedules`)
+            .then(res => {
+                if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+                return res.json();
+            })
+            .then(data => setSchedules(data.schedules))
+            .catch(() => setError('Could not load schedules.'));
+    }, []);
+
+    useEffect(() => {
+        loadSchedules();
+    }, [loadSchedules]);
+
+    const toggleDevice = (deviceId: string) => {
+        setDevices(prev => prev.includes(deviceId) ? prev.filter(id => id !== deviceId) : [...prev, deviceId]);
+    };
+
+    const createSchedule = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!url) {
+            setError('Please enter a URL');
+            return;
+        }
+        if (devices.length === 0) {
+            setError('Please select at least one device to test');
+            return;
+        }
+
+        setSaving(true);
+        setError('');
+        try {
+            const res = await fetch(`${API_URL}/api/schedules`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ url: url.startsWith('http') ? url : `https://${url}`, devices, pageLimit, cron, scoringProfile })
+            });
+            const data = await res.json().catch(() => ({}));
+            if (!res.ok) {
+                setError(data.error || 'Failed to create schedule.');
+                return;
+            }
+            setUrl('');
+            loadSchedules();
+        } catch {
+            setError('Failed to create schedule, the server might be down.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const deleteSchedule = async (schedule: ScanSchedule) => {
+        if (!confirm(`Stop scanning ${schedule.url} on "${schedule.cron}"?`)) return;
+        try {
+            await fetch(`${API_URL}/api/schedules/${schedule.id}`, { method: 'DELETE' });
+        } catch (e) {
+            console.error('Failed to delete schedule', e);
+        }
+        loadSchedules();
+    };
+
+    return (
+        <div className="schedules-container">
+            <h2>Scheduled Scans</h2>
+
+            <form className="schedule-form" onSubmit={createSchedule}>
+                <input
+                    type="text"
+                    placeholder="https://example.com"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    className="schedule-url"
+                />
+
+                <div className="schedule-row">
+                    <label>
+                        <span>When</span>
+                        <select
+                            value={CRON_PRESETS.some(preset => preset.cron === cron) ? cron : ''}
+                            onChange={(e) => e.target.value && setCron(e.target.value)}
+                        >
+                            {CRON_PRESETS.map(preset => (
+                                <option key={preset.cron} value={preset.cron}>{preset.label}</option>
+                            ))}
+                            <option value="">Custom</option>
+                        </select>
+                    </label>
+                    <label>
+                        <span>Cron (UTC)</span>
+                        <input type="text" value={cron} onChange={(e) => setCron(e.target.value)} />
+                    </label>
+                    <label>
+                        <span>Page limit</span>
+                        <select value={pageLimit} onChange={(e) => setPageLimit(Number(e.target.value))}>
+                            <option value={5}>5 pages</option>
+                            <option value={20}>20 pages</option>
+                            <option value={50}>50 pages</option>
+                        </select>
+                    </label>
+                    <label>
+                        <span>Scoring profile</span>
+                        <select value={scoringProfile} onChange={(e) => setScoringProfile(e.target.value)}>
+                            {SCORING_PROFILES.map(profile => (
+                                <option key={profile.id} value={profile.id}>{profile.name}</option>
+                            ))}
+                        </select>
+                    </label>
+                </div>
+
+                <div className="schedule-devices">
+                    {DEVICES.map(device => (
+                        <button
+                            key={device.id}
+                            type="button"
+                            className={`screenshot-device ${devices.includes(device.id) ? 'active' : ''}`}
+                            onClick={() => toggleDevice(device.id)}
+                        >
+                            {device.name} <span className="screenshot-size">{device.width}px</span>
+                        </button>
+                    ))}
+                </div>
+
+                {error && <div className="error-message">{error}</div>}
+
+                <button type="submit" className="btn-primary" disabled={saving}>
+                    {saving ? 'Saving...' : 'Add Schedule'}
+                </button>
+            </form>
+
+            {!schedules ? (
+                <div className="empty-state">Loading schedules...</div>
+            ) : schedules.length === 0 ? (
+                <div className="empty-state">No scheduled scans yet.</div>
+            ) : (
+                <table className="schedule-table">
+                    <thead>
+                        <tr>
+                            <th>Site</th>
+                            <th>Cron</th>
+                            <th>Next run</th>
+                            <th>Latest run</th>
+                            <th></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {schedules.map(schedule => (
+                            <tr key={schedule.id}>
+                                <td className="schedule-site" title={schedule.url}>
+                                    {schedule.url}
+                                    <div className="schedule-meta">
+                                        {schedule.devices.length} devices · {schedule.pageLimit} pages · {scoringProfileName(schedule.scoringProfile ?? 'default')}
+                                        {schedule.webhooks.length > 0 && ` · ${schedule.webhooks.length} webhook${schedule.webhooks.length === 1 ? '' : 's'}`}
+                                    </div>
+                                </td>
+                                <td><code>{schedule.cron}</code></td>
+                                <td>{schedule.nextRunAt ? formatDateTime(schedule.nextRunAt) : 'Never'}</td>
+                                <td>
+                                    {schedule.lastScan ? (
+                                        <button
+                                            type="button"
+                                            className="schedule-latest"
+                                            onClick={() => onOpenScan(schedule.lastScan!.id)}
+                                            disabled={schedule.lastScan.status === 'FAILED' || schedule.lastScan.status === 'CANCELLED'}
+                                        >
+                                            {formatDateTime(schedule.lastScan.timestamp)}
+                                            <span className="schedule-meta">
+                                                {schedule.lastScan.overallScore !== undefined
+                                                    ? `Score ${schedule.lastScan.overallScore}`
+                                                    : schedule.lastScan.status.toLowerCase()}
+                                            </span>
+                                        </button>
+                                    ) : '—'}
+                                </td>
+                                <td>
+                                    <button type="button" className="schedule-delete" onClick={() => deleteSchedule(schedule)} title="Delete schedule">
+                                        <Trash2 size={16} />
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+
+            <style>{`
+        .schedules-container {
+            animation: fadeIn 0.5s ease-out;
+        }
+
+        .schedules-container h2 {
+            margin-bottom: 1.5rem;
+            border-bottom: 1px solid var(--border);
+            padding-bottom: 1rem;
+        }
+
+        .schedule-form {
+            background: var(--bg-secondary);
+            border: 1px solid var(--border);
+            border-radius: var(--radius);
+            padding: 1.5rem;
+            margin-bottom: 2rem;
+            display: flex;
+            flex-direction: column;
+            gap: 1rem;
+            align-items: flex-start;
+        }
+
+        .schedule-form input,
+        .schedule-form select {
+            background: var(--bg-primary);
+            border: 1px solid var(--border);
+            color: var(--text-primary);
+            border-radius: 8px;
+            padding: 0.6rem 0.8rem;
+            font-size: 0.9rem;
+        }
+
+        .schedule-url {
+            width: 100%;
+            box-sizing: border-box;
+        }
+
+        .schedule-row {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 1rem;
+        }
+
+        .schedule-row label {
+            display: flex;
+            flex-direction: column;
+            gap: 0.3rem;
+            font-size: 0.75rem;
+            color: var(--text-secondary);
+            text-transform: uppercase;
+        }
+
+        .schedule-form .error-message {
+            color: var(--danger);
+            font-size: 0.9rem;
+        }
+
+        .schedule-devices {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 0.5rem;
+        }
+
+        .schedule-table {
+            width: 100%;
+            border-collapse: collapse;
+            font-size: 0.9rem;
+        }
+
+        .schedule-table th {
+            text-align: left;
+            color: var(--text-secondary);
+            font-weight: 500;
+            font-size: 0.75rem;
+            text-transform: uppercase;
+            padding: 0.5rem;
+            border-bottom: 1px solid var(--border);
+        }
+
+        .schedule-table td {
+            padding: 0.8rem 0.5rem;
+            border-bottom: 1px solid var(--border);
+            vertical-align: top;
+        }
+
+        .schedule-site {
+            max-width: 320px;
+            word-break: break-all;
+        }
+
+        .schedule-meta {
+            display: block;
+            color: var(--text-secondary);
+            font-size: 0.75rem;
+            margin-top: 0.2rem;
+        }
+
+        .schedule-latest {
+            background: none;
+            border: none;
+            color: var(--accent);
+            padding: 0;
+            text-align: left;
+            cursor: pointer;
+            font-size: 0.9rem;
+        }
+
+        .schedule-latest:disabled {
+            color: var(--text-secondary);
+            cursor: default;
+        }
+
+        .schedule-delete {
+            background: none;
+            border: none;
+            color: var(--text-secondary);
+            cursor: pointer;
+        }
+
+        .schedule-delete:hover {
+            color: var(--danger);
+        }
+      `}</style>
+        </div>
+    );
+};
@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { API_URL } from '../api';
+import type { Screenshot } from '../types';
+
+interface ScreenshotGalleryProps {
+    scanId: string;
+    screenshots: Screenshot[];
+}
+
+export const ScreenshotGallery: React.FC<ScreenshotGalleryProps> = ({ scanId, screenshots }) => {
+    const [selected, setSelected] = useState(0);
+    const current = screenshots[Math.min(selected, screenshots.length - 1)];
+    const src = `${API_URL}/api/scan/${scanId}/screenshots/${current.file}`;
+
+    return (
+        <div className="screenshot-gallery">
+            <h4>Screenshots</h4>
+            <div className="screenshot-devices">
+                {screenshots.map((shot, idx) => (
+                    <button
+                        key={shot.device}
+                        type="button"
+                        className={`screenshot-device ${idx === selected ? 'active' : ''}`}
+                        onClick={() => setSelected(idx)}
+                    >
+                        {shot.name} <span className="screenshot-size">{shot.width}px</span>
+                    </button>
+                ))}
+            </div>
+            <a className="screenshot-frame" href={src} target="_blank" rel="noopener noreferrer">
+                <img
+                    src={src}
+                    alt={`${current.name} (${current.width}×${current.height})`}
+                    loading="lazy"
+                    style={{ maxWidth: Math.min(current.width, 960) }}
+                />
+            </a>
+
+            <style>{`
+        .screenshot-gallery {
+            margin-bottom: 1.5rem;
+            padding-bottom: 1.5rem;
+            border-bottom: 1px solid var(--border);
+        }
+        .screenshot-gallery h4 {
+            font-size: 0.9rem;
+            margin: 0 0 0.5rem 0;
+            color: var(--text-secondary);
+        }
+      `}</style>
+        </div>
+    );
+};
@@ -0,0 +1,137 @@
+import React from 'react';
+import type { PageReport, SocialPreview } from '../types';
+
+interface SocialPreviewCardProps {
+    preview: SocialPreview;
+    structuredData?: PageReport['structuredData'];
+}
+
+const FORMAT_LABELS = {
+    'json-ld': 'JSON-LD',
+    microdata: 'Microdata',
+    rdfa: 'RDFa'
+};
+
+export const SocialPreviewCard: React.FC<SocialPreviewCardProps> = ({ preview, structuredData }) => {
+    // Without a twitter:card most platforms still show a large image when one is set
+    const large = Boolean(preview.image) && preview.card !== 'summary';
+
+    return (
+        <div className="social-preview">
+            <h4>Link Preview</h4>
+            <div className={`social-card ${large ? 'large' : 'small'}`}>
+                {preview.image ? (
+                    <img className="social-card-image" src={preview.image} alt="" loading="lazy" referrerPolicy="no-referrer" />
+                ) : (
+                    <div className="social-card-image social-card-placeholder">No image</div>
+                )}
+                <div className="social-card-body">
+                    <div className="social-card-domain">{preview.siteName || preview.domain}</div>
+                    <div className="social-card-title">{preview.title || 'Untitled page'}</div>
+                    {preview.description && <div className="social-card-description">{preview.description}</div>}
+                </div>
+            </div>
+            {preview.image && preview.imageWidth && preview.imageHeight && (
+                <div className="social-card-meta">Image {preview.imageWidth}×{preview.imageHeight}px</div>
+            )}
+
+            {structuredData && (
+                <div className="structured-data-types">
+                    <strong>Structured data:</strong>{' '}
+                    {structuredData.length === 0
+                        ? 'none found'
+                        : structuredData.map((item, idx) => (
+                            <span key={idx} className="structured-data-type">{item.type} <small>{FORMAT_LABELS[item.format]}</small></span>
+                        ))}
+                </div>
+            )}
+
+            <style>{`
+        .social-preview {
+            margin-bottom: 1.5rem;
+            padding-bottom: 1.5rem;
+            border-bottom: 1px solid var(--border);
+        }
+        .social-preview h4 {
+            font-size: 0.9rem;
+            margin: 0 0 0.5rem 0;
+            color: var(--text-secondary);
+        }
+        .social-card {
+            max-width: 500px;
+            border: 1px solid var(--border);
+            border-radius: 12px;
+            overflow: hidden;
+            background: rgba(255, 255, 255, 0.03);
+        }
+        .social-card.small {
+            display: flex;
+        }
+        .social-card-image {
+            display: block;
+            object-fit: cover;
+            background: rgba(255, 255, 255, 0.05);
+        }
+        .social-card.large .social-card-image {
+            width: 100%;
+            aspect-ratio: 1.91 / 1;
+        }
+        .social-card.small .social-card-image {
+            width: 120px;
+            height: 120px;
+            flex-shrink: 0;
+        }
+        .social-card-placeholder {
+            display: flex;
+            align-items: center;
+            justify-content: center;
+            color: var(--text-secondary);
+            font-size: 0.8rem;
+        }
+        .social-card-body {
+            padding: 0.75rem 1rem;
+            min-width: 0;
+        }
+        .social-card-domain {
+            font-size: 0.75rem;
+            color: var(--text-secondary);
+            text-transform: lowercase;
+        }
+        .social-card-title {
+            font-weight: 600;
+            margin: 0.2rem 0;
+            overflow: hidden;
+            text-overflow: ellipsis;
+            white-space: nowrap;
+        }
+        .social-card-description {
+            font-size: 0.85rem;
+            color: var(--text-secondary);
+            display: -webkit-box;
+            -webkit-line-clamp: 2;
+            -webkit-box-orient: vertical;
+            overflow: hidden;
+        }
+        .social-card-meta {
+            font-size: 0.75rem;
+            color: var(--text-secondary);
+            margin-top: 0.4rem;
+        }
+        .structured-data-types {
+            margin-top: 0.75rem;
+            font-size: 0.85rem;
+        }
+        .structured-data-type {
+            display: inline-block;
+            margin: 0 0.4rem 0.3rem 0;
+            padding: 0.1rem 0.5rem;
+            border: 1px solid var(--border);
+            border-radius: 10px;
+        }
+        .structured-data-type small {
+            color: var(--text-secondary);
+        }
+      `}</style>
+        </div>
+    );
+};
@@ -0,0 +1,249 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { API_URL } from '../api';
+import type { ScanHistoryEntry, ScoreReport } from '../types';
+
+interface TrendsViewProps {
+    url: string;
+}
+
+interface Series {
+    label: string;
+    color: string;
+    values: (number | undefined)[];
+}
+
+const CATEGORY_COLORS: Record<keyof ScoreReport['categories'], string> = {
+    Performance: '#38bdf8',
+    'Responsiveness & Layout': '#a78bfa',
+    Accessibility: '#4ade80',
+    SEO: '#fbbf24',
+    'Errors & Reliability': '#f87171',
+    'Best Practices': '#f472b6',
+    Security: '#2dd4bf'
+};
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+const PADDING = 30;
+
+const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const TrendChart: React.FC<{ title: string; labels: string[]; series: Series[]; max?: number; unit?: string }> = ({ title, labels, series, max, unit = '' }) => {
+    const allValues = series.flatMap(s => s.values.filter((v): v is number => v !== undefined));
+    const yMax = max ?? Math.max(1, ...allValues);
+    const xStep = labels.length > 1 ? (CHART_WIDTH - PADDING * 2) / (labels.length - 1) : 0;
+
+    const x = (i: number) => PADDING + i * xStep;
+    const y = (v: number) => CHART_HEIGHT - PADDING - (v / yMax) * (CHART_HEIGHT - PADDING * 2);
+
+    return (
+        <div className="trend-chart">
+            <h3>{title}</h3>
+            <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="trend-svg">
+                <line x1={PADDING} y1={y(0)} x2={CHART_WIDTH - PADDING} y2={y(0)} className="trend-axis" />
+                <line x1={PADDING} y1={y(yMax)} x2={CHART_WIDTH - PADDING} y2={y(yMax)} className="trend-grid" />
+                <text x={PADDING - 4} y={y(yMax) + 4} className="trend-tick" textAnchor="end">{Math.round(yMax)}{unit}</text>
+                <text x={PADDING - 4} y={y(0) + 4} className="trend-tick" textAnchor="end">0</text>
+
+                {labels.map((label, i) => (
+                    <text key={i} x={x(i)} y={CHART_HEIGHT - 8} className="trend-tick" textAnchor="middle">{label}</text>
+                ))}
+
+                {series.map(s => {
+                    const points = s.values
+                        .map((v, i) => (v === undefined ? null : `${x(i)},${y(v)}`))
+                        .filter(Boolean)
+                        .join(' ');
+                    return (
+                        <g key={s.label}>
+                            <polyline points={points} fill="none" stroke={s.color} strokeWidth={2} />
+                            {s.values.map((v, i) => v !== undefined && (
+                                <circle key={i} cx={x(i)} cy={y(v)} r={3} fill={s.color}>
+                                    <title>{`${s.label}: ${Math.round(v * 1000) / 1000}${unit}`}</title>
+                                </circle>
+                            ))}
+                        </g>
+                    );
+                })}
+            </svg>
+            <div className="trend-legend">
+                {series.map(s => (
+                    <span key={s.label} className="trend-legend-item">
+                        <span className="trend-swatch" style={{ background: s.color }}></span>
+                        {s.label}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export const TrendsView: React.FC<TrendsViewProps> = ({ url }) => {
+    const host = new URL(url).hostname;
+    const [history, setHistory] = useState<ScanHistoryEntry[] | null>(null);
+    const [error, setError] = useState('');
+    const [selectedPage, setSelectedPage] = useState('');
+
+    useEffect(() => {
+        fetch(`${API_URL}/api/sites/${encodeURIComponent(host)}/scans`)
+            .then(res => {
+                if (!res.ok) throw new Error(`Request failed with status ${res.status}`);
+                return res.json();
+            })
+            .then(data => setHistory(data.scans))
+            .catch(() => setError('Could not load scan history.'));
+    }, [host]);
+
+    const pageUrls = useMemo(() => {
+        const urls = new Set<string>();
+        history?.forEach(entry => entry.pages.forEach(page => urls.add(page.url)));
+        return Array.from(urls).sort();
+    }, [history]);
+
+    const activePage = selectedPage || pageUrls[0] || '';
+
+    if (error) return <div className="empty-state">{error}</div>;
+    if (!history) return <div className="empty-state">Loading history...</div>;
+    if (history.length < 2) {
+        return <div className="empty-state">Scan {host} at least twice to see how its scores change over time.</div>;
+    }
+
+    const labels = history.map(entry => formatDate(entry.timestamp));
+
+    const scoreSeries: Series[] = [
+        { label: 'Overall', color: '#f8fafc', values: history.map(entry => entry.overallScore) },
+        ...(Object.keys(CATEGORY_COLORS) as (keyof ScoreReport['categories'])[]).map(category => ({
+            label: category,
+            color: CATEGORY_COLORS[category],
+            values: history.map(entry => entry.categories[category])
+        }))
+    ];
+
+    const pageMetrics = history.map(entry => entry.pages.find(page => page.url === activePage)?.metrics);
+
+    return (
+        <div className="trends-container">
+            <h2>Score History for {host} ({history.length} scans)</h2>
+
+            <TrendChart title="Scores" labels={labels} series={scoreSeries} max={100} />
+
+            <div className="trend-page-picker">
+                <label htmlFor="trend-page">Page</label>
+                <select id="trend-page" value={activePage} onChange={(e) => setSelectedPage(e.target.value)}>
+                    {pageUrls.map(pageUrl => (
+                        <option key={pageUrl} value={pageUrl}>{pageUrl}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="trend-metric-grid">
+                <TrendChart
+                    title="Paint Timings"
+                    labels={labels}
+                    unit="ms"
+                    series={[
+                        { label: 'LCP', color: '#38bdf8', values: pageMetrics.map(m => m?.lcp) },
+                        { label: 'FCP', color: '#4ade80', values: pageMetrics.map(m => m?.fcp) }
+                    ]}
+                />
+                <TrendChart
+                    title="Cumulative Layout Shift"
+                    labels={labels}
+                    series={[{ label: 'CLS', color: '#fbbf24', values: pageMetrics.map(m => m?.cls) }]}
+                />
+            </div>
+
+            <style>{`
+        .trends-container {
+            animation: fadeIn 0.5s ease-out;
+        }
+
+        .trends-container h2 {
+            margin-bottom: 1.5rem;
+            border-bottom: 1px solid var(--border);
+            padding-bottom: 1rem;
+        }
+
+        .trend-chart {
+            background: var(--bg-secondary);
+            border: 1px solid var(--border);
+            border-radius: var(--radius);
+            padding: 1.5rem;
+            margin-bottom: 1.5rem;
+        }
+
+        .trend-chart h3 {
+            margin: 0 0 1rem 0;
+            font-size: 0.9rem;
+            color: var(--text-secondary);
+        }
+
+        .trend-svg {
+            width: 100%;
+            height: auto;
+        }
+
+        .trend-axis {
+            stroke: var(--border);
+            stroke-width: 1;
+        }
+
+        .trend-grid {
+            stroke: var(--border);
+            stroke-width: 1;
+            stroke-dasharray: 4 4;
+        }
+
+        .trend-tick {
+            fill: var(--text-secondary);
+            font-size: 10px;
+        }
+
+        .trend-legend {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 1rem;
+            margin-top: 1rem;
+            font-size: 0.8rem;
+            color: var(--text-secondary);
+        }
+
+        .trend-legend-item {
+            display: flex;
+            align-items: center;
+            gap: 0.4rem;
+        }
+
+        .trend-swatch {
+            width: 10px;
+            height: 10px;
+            border-radius: 2px;
+        }
+
+        .trend-page-picker {
+            display: flex;
+            align-items: center;
+            gap: 1rem;
+            margin-bottom: 1.5rem;
+        }
+
+        .trend-page-picker select {
+            flex: 1;
+            padding: 0.5rem 1rem;
+            background: var(--bg-secondary);
+            border: 1px solid var(--border);
+            border-radius: 8px;
+            color: var(--text-primary);
+            font-family: monospace;
+        }
+
+        .trend-metric-grid {
+            display: grid;
+            grid-template-columns: repeat(auto-fit, minmax(320px, 1fr));
+            gap: 1.5rem;
+        }
+      `}</style>
+        </div>
+    );
+};
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import type { DecisionStatus, Finding, ScoreReport } from '../types';
+import { TRIAGE_LABELS, triageRequest } from '../triage';
+
+interface TriageActionsProps {
+    scanId: string;
+    host: string;
+    finding: Finding;
+    onReportChange: (report: ScoreReport) => void;
+}
+
+const DECISIONS: DecisionStatus[] = ['acknowledged', 'wont_fix', 'false_positive'];
+
+export const TriageActions: React.FC<TriageActionsProps> = ({ scanId, host, finding, onReportChange }) => {
+    const [saving, setSaving] = useState(false);
+    const [note, setNote] = useState('');
+    const [showRuleForm, setShowRuleForm] = useState(false);
+    const [descriptionPattern, setDescriptionPattern] = useState('');
+    const [pathPattern, setPathPattern] = useState('');
+
+    const run = async (action: () => Promise<ScoreReport>) => {
+        setSaving(true);
+        try {
+            onReportChange(await action());
+        } catch (error) {
+            alert((error as Error).message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const setStatus = (status: DecisionStatus | 'open') => run(async () => {
+        const { report } = await triageRequest<{ report: ScoreReport }>(`/api/scan/${scanId}/triage`, 'POST', {
+            fingerprints: finding.fingerprints,
+            status,
+            note
+        });
+        return report;
+    });
+
+    const createRule = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(async () => {
+            await triageRequest(`/api/sites/${encodeURIComponent(host)}/ignore-rules`, 'POST', {
+                issue: finding.title,
+                description: descriptionPattern,
+                path: pathPattern,
+                note
+            });
+            const { report } = await triageRequest<{ report: ScoreReport }>(`/api/scan/${scanId}/retriage`, 'POST');
+            return report;
+        });
+    };
+
+    if (finding.triage?.status === 'ignored') {
+        return <div className="triage-actions">Ignored by a rule for {host}, remove the rule below to count it again.</div>;
+    }
+
+    if (finding.triage) {
+        return (
+            <div className="triage-actions">
+                <button type="button" className="triage-button" disabled={saving} onClick={() => setStatus('open')}>
+                    Reopen
+                </button>
+            </div>
+        );
+    }
+
+    // Reports from before fingerprints existed have nothing to key decisions on
+    if (finding.fingerprints.length === 0) return null;
+
+    return (
+        <div className="triage-actions">
+            <input
+                type="text"
+                className="triage-note"
+                placeholder="Note (optional)"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+            />
+            {DECISIONS.map(status => (
+                <button key={status} type="button" className="triage-button" disabled={saving} onClick={() => setStatus(status)}>
+                    {TRIAGE_LABELS[status]}
+                </button>
+            ))}
+            <button type="button" className="triage-button" onClick={() => setShowRuleForm(!showRuleForm)}>
+                Ignore similar…
+            </button>
+
+            {showRuleForm && (
+                <form className="triage-rule-form" onSubmit={createRule}>
+                    <span>Ignore "{finding.title}" on {host}</span>
+                    <input
+                        type="text"
+                        placeholder="Description containing, e.g. deprecated (optional)"
+                        title="Case-insensitive text, or regex:<expression> for a regular expression"
+                        value={descriptionPattern}
+                        onChange={(e) => setDescriptionPattern(e.target.value)}
+                    />
+                    <input
+                        type="text"
+                        placeholder="On pages matching, e.g. /blog/** (optional)"
+                        title="Glob on path and query, * within a segment, ** across segments, or regex:<expression>"
+                        value={pathPattern}
+                        onChange={(e) => setPathPattern(e.target.value)}
+                    />
+                    <button type="submit" className="triage-button" disabled={saving}>Add ignore rule</button>
+                </form>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { API_URL } from '../api';
+import type { VisualDiff } from '../types';
+
+interface VisualDiffPanelProps {
+    scanId: string;
+    url: string;
+    diffs: VisualDiff[];
+}
+
+const formatMismatch = (mismatch: number) => `${(mismatch * 100).toFixed(1)}%`;
+
+export const VisualDiffPanel: React.FC<VisualDiffPanelProps> = ({ scanId, url, diffs }) => {
+    const [selected, setSelected] = useState(0);
+    const [accepted, setAccepted] = useState<Record<string, boolean>>({});
+    const [saving, setSaving] = useState(false);
+    const current = diffs[Math.min(selected, diffs.length - 1)];
+    const imageUrl = (file: string) => `${API_URL}/api/scan/${scanId}/screenshots/${file}`;
+
+    const acceptBaseline = async () => {
+        setSaving(true);
+        try {
+            const response = await fetch(`${API_URL}/api/scan/${scanId}/baselines`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ url, device: current.device })
+            });
+            if (!response.ok) {
+                const data = await response.json();
+                alert(data.error || 'Failed to accept baseline');
+                return;
+            }
+            setAccepted(prev => ({ ...prev, [current.device]: true }));
+        } catch (error) {
+            console.error(error);
+            alert('Failed to accept baseline');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="visual-diff">
+            <h4>Visual changes</h4>
+            <div className="screenshot-devices">
+                {diffs.map((diff, idx) => (
+                    <button
+                        key={diff.device}
+                        type="button"
+                        className={`screenshot-device ${idx === selected ? 'active' : ''}`}
+                        onClick={() => setSelected(idx)}
+                    >
+                        {diff.name} <span className="screenshot-size">{formatMismatch(diff.mismatch)}</span>
+                    </button>
+                ))}
+            </div>
+
+            <div className="visual-diff-summary">
+                <span>
+                    {formatMismatch(current.mismatch)} of pixels changed since the baseline from {new Date(current.baselineTimestamp).toLocaleDateString()}
+                </span>
+                <button
+                    type="button"
+                    className="btn-secondary"
+                    onClick={acceptBaseline}
+                    disabled={saving || accepted[current.device]}
+                >
+                    {accepted[current.device] ? 'Accepted as baseline' : 'Accept as new baseline'}
+                </button>
+            </div>
+
+            <div className="visual-diff-images">
+                {([['Before', current.baselineFile], ['After', current.file], ['Diff', current.diffFile]] as const).map(([label, file]) => (
+                    <figure key={label}>
+                        <figcaption>{label}</figcaption>
+                        <a className="screenshot-frame" href={imageUrl(file)} target="_blank" rel="noopener noreferrer">
+                            <img src={imageUrl(file)} alt={`${label}: ${current.name}`} loading="lazy" />
+                        </a>
+                    </figure>
+                ))}
+            </div>
+
+            <style>{`
+        .visual-diff {
+            margin-bottom: 1.5rem;
+            padding-bottom: 1.5rem;
+            border-bottom: 1px solid var(--border);
+        }
+        .visual-diff h4 {
+            font-size: 0.9rem;
+            margin: 0 0 0.5rem 0;
+            color: var(--text-secondary);
+        }
+        .visual-diff-summary {
+            display: flex;
+            align-items: center;
+            justify-content: space-between;
+            gap: 1rem;
+            flex-wrap: wrap;
+            margin-bottom: 0.8rem;
+            font-size: 0.9rem;
+        }
+        .visual-diff-images {
+            display: grid;
+            grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
+            gap: 1rem;
+        }
+        .visual-diff-images figure {
+            margin: 0;
+        }
+        .visual-diff-images figcaption {
+            font-size: 0.75rem;
+            color: var(--text-secondary);
+            text-transform: uppercase;
+            margin-bottom: 0.3rem;
+        }
+      `}</style>
+        </div>
+    );
+};
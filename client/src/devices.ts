@@ -0,0 +1,20 @@
+import type React from 'react';
+import { Smartphone, Tablet, Monitor } from 'lucide-react';
+
+export interface Device {
+    id: string;
+    name: string;
+    width: number;
+    icon: React.ComponentType<{ size?: number; strokeWidth?: number }>;
+}
+
+export const DEVICES: Device[] = [
+    { id: 'small-mobile', name: 'Small Mobile', width: 375, icon: Smartphone },
+    { id: 'mobile', name: 'Mobile', width: 390, icon: Smartphone },
+    { id: 'big-mobile', name: 'Big Mobile', width: 430, icon: Smartphone },
+    { id: 'tablet-small', name: 'Tablet Small', width: 768, icon: Tablet },
+    { id: 'tablet-normal', name: 'Tablet Normal', width: 1024, icon: Tablet },
+    { id: 'desktop-small', name: 'Desktop Small', width: 1280, icon: Monitor },
+    { id: 'desktop-medium', name: 'Desktop Medium', width: 1366, icon: Monitor },
+    { id: 'desktop-normal', name: 'Desktop Normal', width: 1920, icon: Monitor }
+];
@@ -0,0 +1,15 @@
+// Mirrors the profiles the server scores with
+export interface ScoringProfileOption {
+    id: string;
+    name: string;
+    description: string;
+}
+
+export const SCORING_PROFILES: ScoringProfileOption[] = [
+    { id: 'default', name: 'Balanced', description: 'Balanced weights with linear penalties, the original scoring' },
+    { id: 'marketing', name: 'Marketing site', description: 'Search visibility and speed count most' },
+    { id: 'web-app', name: 'Web app', description: 'Reliability and accessibility count most, search metadata barely' }
+];
+
+export const scoringProfileName = (id?: string) =>
+    SCORING_PROFILES.find(profile => profile.id === id)?.name ?? id;
@@ -0,0 +1,21 @@
+import { API_URL } from './api';
+import type { TriageStatus } from './types';
+
+export const TRIAGE_LABELS: Record<TriageStatus, string> = {
+    acknowledged: 'Acknowledged',
+    wont_fix: "Won't fix",
+    false_positive: 'False positive',
+    ignored: 'Ignored by rule'
+};
+
+// Triage calls share their error handling, a failed request throws with the server's message
+export async function triageRequest<T>(path: string, method: 'POST' | 'DELETE', body: object = {}): Promise<T> {
+    const res = await fetch(`${API_URL}${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+    });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(data.error || `Request failed with status ${res.status}`);
+    return data;
+}
@@ -1,9 +1,106 @@
 export interface Issue {
-    category: 'Performance' | 'Responsiveness & Layout' | 'Accessibility' | 'SEO' | 'Errors & Reliability' | 'Best Practices';
+    category: 'Performance' | 'Responsiveness & Layout' | 'Accessibility' | 'SEO' | 'Errors & Reliability' | 'Best Practices' | 'Security';
     severity: 'Critical' | 'Major' | 'Minor' | 'Suggestion';
     title: string;
     description: string;
     affectedUrl: string;
+    ruleId?: string;
+    wcag?: string[];
+    elements?: string[];
+    fingerprint?: string;
+    triage?: IssueTriage;
+}
+
+export type TriageStatus = 'acknowledged' | 'wont_fix' | 'false_positive' | 'ignored';
+// Statuses set on an issue by hand, 'ignored' comes from ignore rules
+export type DecisionStatus = Exclude<TriageStatus, 'ignored'>;
+
+export interface IssueTriage {
+    status: TriageStatus;
+    note?: string;
+    ignoreRuleId?: string;
+}
+
+export interface IgnoreRule {
+    id: string;
+    host: string;
+    issue: string;
+    description?: string;
+    path?: string;
+    note?: string;
+    createdAt: number;
+}
+
+// Issues sharing a rule and message across pages, collapsed into one entry
+export interface Finding extends Omit<Issue, 'affectedUrl' | 'fingerprint'> {
+    ruleId: string;
+    affectedUrls: string[];
+    fingerprints: string[];
+    occurrences: number;
+}
+
+export interface LighthouseScores {
+    performance?: number;
+    accessibility?: number;
+    seo?: number;
+    bestPractices?: number;
+}
+
+export interface Screenshot {
+    device: string;
+    name: string;
+    width: number;
+    height: number;
+    file: string;
+}
+
+export interface VisualDiff {
+    device: string;
+    name: string;
+    mismatch: number;
+    file: string;
+    baselineFile: string;
+    diffFile: string;
+    baselineScanId: string;
+    baselineTimestamp: number;
+}
+
+// How a page would look when its link is shared
+export interface SocialPreview {
+    title?: string;
+    description?: string;
+    image?: string;
+    imageWidth?: number;
+    imageHeight?: number;
+    siteName?: string;
+    domain: string;
+    card?: string;
+}
+
+export type ResourceKind = 'document' | 'script' | 'stylesheet' | 'image' | 'font' | 'media' | 'other';
+
+export interface ResourceTotals {
+    requests: number;
+    bytes: number;
+}
+
+export interface ResourceEntry {
+    url: string;
+    kind: ResourceKind;
+    status: number;
+    transferSize: number;
+    // -1 when the browser reported no timing
+    duration: number;
+    thirdParty: boolean;
+}
+
+export interface ResourceBreakdown {
+    requests: number;
+    bytes: number;
+    byKind: Record<ResourceKind, ResourceTotals>;
+    firstParty: ResourceTotals;
+    thirdParty: ResourceTotals;
+    largest: ResourceEntry[];
 }
 
 export interface PageReport {
@@ -14,6 +111,7 @@ export interface PageReport {
         fcp?: number;
         cls?: number;
         duration?: number;
+        resources?: ResourceBreakdown;
     };
     categoryScores: {
         Performance: number;
@@ -22,8 +120,15 @@ export interface PageReport {
         SEO: number;
         'Errors & Reliability': number;
         'Best Practices': number;
+        Security: number;
     };
     issues: Issue[];
+    lighthouse?: LighthouseScores;
+    screenshots?: Screenshot[];
+    visualDiffs?: VisualDiff[];
+    // Absent on reports from before social previews and structured data were checked
+    socialPreview?: SocialPreview;
+    structuredData?: { format: 'json-ld' | 'microdata' | 'rdfa'; type: string }[];
 }
 
 export interface ScoreReport {
@@ -35,7 +140,110 @@ export interface ScoreReport {
         SEO: number;
         'Errors & Reliability': number;
         'Best Practices': number;
+        Security: number;
     };
     details: Issue[];
+    // Absent on reports from before findings were grouped
+    findings?: Finding[];
     pages: PageReport[];
+    // Absent on reports from before scoring profiles existed
+    profile?: string;
+}
+
+export interface ScanHistoryEntry {
+    id: string;
+    url: string;
+    timestamp: number;
+    overallScore: number;
+    categories: ScoreReport['categories'];
+    pages: Pick<PageReport, 'url' | 'score' | 'metrics'>[];
+}
+
+export interface ScoreDelta {
+    base: number;
+    head: number;
+    delta: number;
+}
+
+export interface PageDelta {
+    url: string;
+    status: 'added' | 'removed' | 'both';
+    baseScore?: number;
+    headScore?: number;
+    delta?: number;
+}
+
+export interface ReportDiff {
+    overall: ScoreDelta;
+    categories: Record<keyof ScoreReport['categories'], ScoreDelta>;
+    pages: PageDelta[];
+    issues: {
+        new: Issue[];
+        fixed: Issue[];
+        persisting: Issue[];
+    };
+}
+
+export interface CrawlConfig {
+    maxDepth?: number;
+    include?: string[];
+    exclude?: string[];
+    followSubdomains?: boolean;
+    stripQueryParams?: string[];
+    trailingSlash?: 'keep' | 'add' | 'remove';
+    checkExternalLinks?: boolean;
+}
+
+export interface LoginStep {
+    url: string;
+    usernameSelector: string;
+    passwordSelector: string;
+    submitSelector: string;
+    username: string;
+    password: string;
+    successSelector?: string;
+}
+
+export interface AuthConfig {
+    basic?: { username: string; password: string };
+    headers?: Record<string, string>;
+    cookies?: { name: string; value: string; domain?: string; path?: string; url?: string }[];
+    storageState?: { cookies: unknown[]; origins?: unknown[] };
+    login?: LoginStep;
+}
+
+export interface VisualConfig {
+    mask?: string[];
+    tolerance?: number;
+    threshold?: number;
+}
+
+export type BudgetName = 'total' | 'js' | 'css' | 'images' | 'fonts' | 'media' | 'thirdParty' | 'requests';
+
+// Sizes such as 400KB or 2MB, requests is a count
+export type PageBudgets = Partial<Record<BudgetName, string>>;
+
+export interface ScanSchedule {
+    id: string;
+    url: string;
+    devices: string[];
+    pageLimit: number;
+    cron: string;
+    scoringProfile?: string;
+    createdAt: number;
+    nextRunAt: number | null;
+    lastRunAt?: number;
+    lastScanId?: string;
+    lastScan?: {
+        id: string;
+        status: 'QUEUED' | 'SCANNING' | 'COMPLETE' | 'FAILED' | 'CANCELLED';
+        timestamp: number;
+        overallScore?: number;
+    };
+    webhooks: {
+        id: string;
+        url: string;
+        events: ('COMPLETE' | 'FAILED')[];
+        regressionsOnly?: boolean;
+    }[];
 }
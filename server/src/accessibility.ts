@@ -0,0 +1,62 @@
+import fs from 'fs';
+import type { Page } from 'playwright';
+import type { AxeResults, ImpactValue } from 'axe-core';
+import type { Issue } from './scorer';
+
+// WCAG 2.1 A/AA plus axe's best practices (landmarks, heading order, region)
+const AXE_TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa', 'best-practice'];
+const MAX_ELEMENTS = 10;
+
+let axeSource: string | null = null;
+
+function loadAxeSource(): string {
+    if (!axeSource) {
+        axeSource = fs.readFileSync(require.resolve('axe-core/axe.min.js'), 'utf8');
+    }
+    return axeSource;
+}
+
+const SEVERITY: Record<NonNullable<ImpactValue>, Issue['severity']> = {
+    critical: 'Critical',
+    serious: 'Major',
+    moderate: 'Minor',
+    minor: 'Suggestion'
+};
+
+// axe tags success criteria as e.g. 'wcag143', which is SC 1.4.3
+function wcagCriteria(tags: string[]): string[] {
+    return tags
+        .map(tag => tag.match(/^wcag(\d)(\d)(\d+)$/))
+        .filter((match): match is RegExpMatchArray => match !== null)
+        .map(([, principle, guideline, criterion]) => `${principle}.${guideline}.${criterion}`);
+}
+
+export async function runAccessibilityAudit(page: Page, url: string): Promise<Issue[]> {
+    // Evaluated through the devtools protocol rather than a <script> tag so page CSPs cannot block it
+    await page.evaluate(loadAxeSource());
+
+    const results = await page.evaluate((tags) =>
+        (window as any).axe.run(document, {
+            runOnly: { type: 'tag', values: tags },
+            resultTypes: ['violations']
+        }) as Promise<AxeResults>,
+        AXE_TAGS
+    );
+
+    return results.violations.map(violation => {
+        const wcag = wcagCriteria(violation.tags);
+        const elements = violation.nodes.slice(0, MAX_ELEMENTS).map(node => node.target.join(' '));
+        const more = violation.nodes.length > MAX_ELEMENTS ? ` (showing ${MAX_ELEMENTS} of ${violation.nodes.length})` : '';
+
+        return {
+            category: 'Accessibility',
+            severity: SEVERITY[violation.impact || 'moderate'],
+            title: violation.help,
+            description: `${violation.description} ${violation.nodes.length} element${violation.nodes.length === 1 ? '' : 's'} affected${more}. ${wcag.length > 0 ? `WCAG ${wcag.join(', ')}. ` : ''}See ${violation.helpUrl}`,
+            affectedUrl: url,
+            ruleId: `axe/${violation.id}`,
+            wcag,
+            elements
+        };
+    });
+}
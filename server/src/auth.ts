@@ -0,0 +1,308 @@
+import { chromium, request, APIRequestContext, Browser, BrowserContext, BrowserContextOptions } from 'playwright';
+
+type StorageState = Exclude<BrowserContextOptions['storageState'], string | undefined>;
+type Cookie = Parameters<BrowserContext['addCookies']>[0][number];
+
+export interface LoginStep {
+    url: string;
+    usernameSelector: string;
+    passwordSelector: string;
+    submitSelector: string;
+    username: string;
+    password: string;
+    // Optional element that only shows up once logged in, used to confirm success
+    successSelector?: string;
+}
+
+export interface AuthConfig {
+    basic?: { username: string; password: string };
+    headers?: Record<string, string>;
+    cookies?: Cookie[];
+    storageState?: StorageState;
+    login?: LoginStep;
+}
+
+export type AuthMethod = 'basic' | 'headers' | 'cookies' | 'storageState' | 'login';
+
+// The signed-in state for the scanned site. Basic auth is bound to the site's origin and cookies to their
+// own domains, so contextOptions are safe for every request. Extra headers such as bearer tokens are kept
+// apart and only ever added to requests for the origin.
+export interface AuthContext {
+    origin: string;
+    contextOptions: BrowserContextOptions;
+    headers?: Record<string, string>;
+}
+
+// The signed-in request context for URLs on the site's origin, a bare one for every other host
+export type RequestContextFor = (url: string) => APIRequestContext;
+
+export interface SiteRequests {
+    for: RequestContextFor;
+    // No credentials whatsoever, for results that are shared between scans
+    bare: APIRequestContext;
+    dispose(): Promise<void>;
+}
+
+export class AuthError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AuthError';
+    }
+}
+
+const LOGIN_TIMEOUT = 30000;
+const SAME_SITE_VALUES = ['Strict', 'Lax', 'None'] as const;
+
+function requireString(value: unknown, field: string): string {
+    if (typeof value !== 'string' || value === '') {
+        throw new Error(`auth.${field} is required`);
+    }
+    return value;
+}
+
+function requireObject(value: unknown, field: string): Record<string, unknown> {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error(`auth.${field} must be an object`);
+    }
+    return value as Record<string, unknown>;
+}
+
+function optionalString(value: unknown, field: string): string | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value !== 'string') {
+        throw new Error(`auth.${field} must be a string`);
+    }
+    return value;
+}
+
+// Playwright wants either a url or a domain with a path, a bare domain means the whole site
+function parseCookie(value: unknown, field: string): Cookie {
+    const input = requireObject(value, field);
+    if (typeof input.name !== 'string' || input.name === '' || typeof input.value !== 'string') {
+        throw new Error(`auth.${field} must have a string name and value`);
+    }
+    const cookie: Cookie = { name: input.name, value: input.value };
+    const url = optionalString(input.url, `${field}.url`);
+    const domain = optionalString(input.domain, `${field}.domain`);
+    if (url && domain) {
+        throw new Error(`auth.${field} takes either url or domain, not both`);
+    }
+    if (url) cookie.url = url;
+    if (domain) {
+        cookie.domain = domain;
+        cookie.path = optionalString(input.path, `${field}.path`) ?? '/';
+    }
+    if (input.expires !== undefined) {
+        if (typeof input.expires !== 'number') throw new Error(`auth.${field}.expires must be a unix timestamp`);
+        cookie.expires = input.expires;
+    }
+    for (const flag of ['httpOnly', 'secure'] as const) {
+        if (input[flag] === undefined) continue;
+        if (typeof input[flag] !== 'boolean') throw new Error(`auth.${field}.${flag} must be true or false`);
+        cookie[flag] = input[flag] as boolean;
+    }
+    if (input.sameSite !== undefined) {
+        // Cookie exports from browser extensions write it in lower case
+        const sameSite = SAME_SITE_VALUES.find(v => typeof input.sameSite === 'string' && v.toLowerCase() === input.sameSite.toLowerCase());
+        if (!sameSite) throw new Error(`auth.${field}.sameSite must be Strict, Lax or None`);
+        cookie.sameSite = sameSite;
+    }
+    return cookie;
+}
+
+// Checks that each kind of credential is complete and made of strings, nothing is tried against the site here
+export function parseAuthConfig(raw: unknown): AuthConfig | undefined {
+    if (raw === undefined || raw === null) return undefined;
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error('auth must be an object');
+    }
+    const input = raw as Record<string, unknown>;
+    const auth: AuthConfig = {};
+
+    if (input.basic) {
+        const basic = requireObject(input.basic, 'basic');
+        auth.basic = {
+            username: requireString(basic.username, 'basic.username'),
+            password: requireString(basic.password, 'basic.password')
+        };
+    }
+
+    if (input.headers) {
+        const headers = requireObject(input.headers, 'headers');
+        if (Object.values(headers).some(v => typeof v !== 'string')) {
+            throw new Error('auth.headers must map header names to string values');
+        }
+        auth.headers = headers as Record<string, string>;
+    }
+
+    if (input.cookies) {
+        if (!Array.isArray(input.cookies)) {
+            throw new Error('auth.cookies must be a list of { name, value } cookies');
+        }
+        auth.cookies = input.cookies.map((cookie: unknown, i) => parseCookie(cookie, `cookies[${i}]`));
+    }
+
+    if (input.storageState) {
+        const state = requireObject(input.storageState, 'storageState');
+        const cookies = state.cookies;
+        if (!Array.isArray(cookies) || cookies.some((c: unknown) => {
+            const cookie = c && typeof c === 'object' ? c as Record<string, unknown> : undefined;
+            return !cookie || ['name', 'value', 'domain', 'path'].some(key => typeof cookie[key] !== 'string');
+        })) {
+            throw new Error('auth.storageState must be a Playwright storage state object');
+        }
+        if (state.origins !== undefined && !Array.isArray(state.origins)) {
+            throw new Error('auth.storageState.origins must be a list');
+        }
+        // Beyond the cookie basics the state is handed to Playwright as saved
+        auth.storageState = { cookies, origins: state.origins ?? [] } as StorageState;
+    }
+
+    if (input.login) {
+        const login = requireObject(input.login, 'login');
+        auth.login = {
+            url: requireString(login.url, 'login.url'),
+            usernameSelector: requireString(login.usernameSelector, 'login.usernameSelector'),
+            passwordSelector: requireString(login.passwordSelector, 'login.passwordSelector'),
+            submitSelector: requireString(login.submitSelector, 'login.submitSelector'),
+            username: requireString(login.username, 'login.username'),
+            password: requireString(login.password, 'login.password'),
+            successSelector: optionalString(login.successSelector, 'login.successSelector')
+        };
+    }
+
+    return Object.keys(auth).length > 0 ? auth : undefined;
+}
+
+// Safe to store and show: which kinds of credentials a scan used, never the values
+export function authMethods(auth?: AuthConfig): AuthMethod[] {
+    if (!auth) return [];
+    return (['basic', 'headers', 'cookies', 'storageState', 'login'] as AuthMethod[]).filter(method => auth[method] !== undefined);
+}
+
+// Every secret string in the config, longest first so overlapping values redact cleanly
+export function secretValues(auth?: AuthConfig): string[] {
+    if (!auth) return [];
+    const values = [
+        auth.basic?.password,
+        auth.login?.password,
+        ...Object.values(auth.headers || {}),
+        ...(auth.cookies || []).map(cookie => cookie.value),
+        ...(auth.storageState?.cookies || []).map(cookie => cookie.value)
+    ];
+    return Array.from(new Set(values.filter((v): v is string => typeof v === 'string' && v.length >= 4)))
+        .sort((a, b) => b.length - a.length);
+}
+
+export function redactSecrets(text: string, secrets: string[]): string {
+    return secrets.reduce((result, secret) => result.split(secret).join('[redacted]'), text);
+}
+
+async function performLogin(context: BrowserContext, login: LoginStep) {
+    const page = await context.newPage();
+    try {
+        await page.goto(login.url, { waitUntil: 'domcontentloaded', timeout: LOGIN_TIMEOUT });
+        await page.fill(login.usernameSelector, login.username, { timeout: LOGIN_TIMEOUT });
+        await page.fill(login.passwordSelector, login.password, { timeout: LOGIN_TIMEOUT });
+        await page.click(login.submitSelector, { timeout: LOGIN_TIMEOUT });
+
+        if (login.successSelector) {
+            await page.waitForSelector(login.successSelector, { timeout: LOGIN_TIMEOUT });
+        } else {
+            // The click returns before any navigation starts. Wait for the form to go away, by a new page or by
+            // script, and for whatever replaced it to settle; a form that stays is judged as it stands.
+            await page.locator(login.passwordSelector).first().waitFor({ state: 'hidden', timeout: LOGIN_TIMEOUT }).catch(() => { });
+            await page.waitForLoadState('networkidle', { timeout: LOGIN_TIMEOUT }).catch(() => { });
+            if (await page.isVisible(login.passwordSelector)) {
+                // Still looking at a password field, the credentials were most likely rejected
+                throw new AuthError('Login did not succeed, the password field is still shown after submitting.');
+            }
+        }
+    } catch (err) {
+        if (err instanceof AuthError) throw err;
+        // Playwright messages can quote filled values, so only the selector step is reported
+        throw new AuthError(`Login step failed at ${login.url}: ${(err as Error).name}`);
+    } finally {
+        await page.close();
+    }
+}
+
+function sameOrigin(url: string, origin: string): boolean {
+    try {
+        return new URL(url).origin === origin;
+    } catch {
+        return false;
+    }
+}
+
+// A browser context acting as the signed-in user, with the auth headers added on the site's origin only
+export async function newAuthorizedContext(browser: Browser, auth: AuthContext, options: BrowserContextOptions = {}): Promise<BrowserContext> {
+    const context = await browser.newContext({ ...auth.contextOptions, ...options });
+    const { headers } = auth;
+    if (headers) {
+        await context.route(url => url.origin === auth.origin, route =>
+            route.continue({ headers: { ...route.request().headers(), ...headers } })
+        );
+    }
+    return context;
+}
+
+// Request contexts for fetches outside the browser: canonicals, sitemaps, images and links can point anywhere
+export async function createSiteRequests(auth: AuthContext, userAgent?: string): Promise<SiteRequests> {
+    const site = await request.newContext({
+        httpCredentials: auth.contextOptions.httpCredentials,
+        storageState: auth.contextOptions.storageState,
+        extraHTTPHeaders: auth.headers,
+        userAgent
+    });
+    const bare = await request.newContext({ userAgent });
+    return {
+        for: url => (sameOrigin(url, auth.origin) ? site : bare),
+        bare,
+        dispose: async () => {
+            await site.dispose();
+            await bare.dispose();
+        }
+    };
+}
+
+// Turns an AuthConfig into the signed-in state shared by the crawler, the scanner and Lighthouse.
+// Cookies and scripted logins are resolved once here into a storage state.
+export async function resolveAuthContext(auth: AuthConfig | undefined, startUrl: string): Promise<AuthContext> {
+    const { origin } = new URL(startUrl);
+    const options: BrowserContextOptions = {};
+    const resolved: AuthContext = { origin, contextOptions: options, headers: auth?.headers };
+    if (!auth) return resolved;
+
+    if (auth.basic) {
+        options.httpCredentials = { username: auth.basic.username, password: auth.basic.password, origin };
+    }
+
+    if (!auth.cookies && !auth.storageState && !auth.login) {
+        return resolved;
+    }
+
+    const browser = await chromium.launch({ headless: true, args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage'] });
+    try {
+        const context = await newAuthorizedContext(browser, resolved, { storageState: auth.storageState }).catch(err => {
+            // Playwright's message may quote the values, like the login step only the kind of failure is kept
+            throw new AuthError(`The storage state could not be loaded: ${(err as Error).name}`);
+        });
+        if (auth.cookies) {
+            // Cookies without a domain are scoped to the scanned site
+            await context.addCookies(auth.cookies.map(cookie =>
+                cookie.domain || cookie.url ? cookie : { ...cookie, url: origin }
+            )).catch(err => {
+                throw new AuthError(`The cookies could not be set, check their domain, path and expiry: ${(err as Error).name}`);
+            });
+        }
+        if (auth.login) {
+            await performLogin(context, auth.login);
+        }
+        options.storageState = await context.storageState();
+    } finally {
+        await browser.close();
+    }
+
+    return resolved;
+}
@@ -0,0 +1,55 @@
+import fs from 'fs';
+import path from 'path';
+import type { DB } from './db';
+import { hostOf } from './scanStore';
+import { baselinePathFor } from './screenshots';
+
+export interface VisualBaseline {
+    url: string;
+    device: string;
+    scanId: string;
+    timestamp: number;
+    // Absolute path of the accepted screenshot
+    file: string;
+}
+
+export interface BaselineRepository {
+    find(url: string, device: string): VisualBaseline | undefined;
+    // Copies the screenshot into the baseline store, replacing any earlier baseline
+    accept(url: string, device: string, scanId: string, timestamp: number, sourceFile: string): VisualBaseline;
+}
+
+interface BaselineRow {
+    url: string;
+    device: string;
+    host: string;
+    scan_id: string;
+    timestamp: number;
+}
+
+export class SqliteBaselineRepository implements BaselineRepository {
+    constructor(private db: DB) { }
+
+    find(url: string, device: string): VisualBaseline | undefined {
+        const row = this.db.prepare('SELECT * FROM visual_baselines WHERE url = ? AND device = ?').get(url, device) as BaselineRow | undefined;
+        if (!row) return undefined;
+
+        const file = baselinePathFor(row.url, row.device);
+        // The image may have been removed by hand, treat that as no baseline at all
+        if (!fs.existsSync(file)) return undefined;
+        return { url: row.url, device: row.device, scanId: row.scan_id, timestamp: row.timestamp, file };
+    }
+
+    accept(url: string, device: string, scanId: string, timestamp: number, sourceFile: string): VisualBaseline {
+        const file = baselinePathFor(url, device);
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.copyFileSync(sourceFile, file);
+
+        this.db.prepare(`
+            INSERT INTO visual_baselines (url, device, host, scan_id, timestamp) VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT (url, device) DO UPDATE SET host = excluded.host, scan_id = excluded.scan_id, timestamp = excluded.timestamp
+        `).run(url, device, hostOf(url), scanId, timestamp);
+
+        return { url, device, scanId, timestamp, file };
+    }
+}
@@ -0,0 +1,267 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import path from 'path';
+import { runScan, ScanOptions } from './scanner';
+import type { ScoreReport } from './scorer';
+import { CrawlConfig, parseCrawlConfig } from './crawlScope';
+import { AuthConfig, parseAuthConfig } from './auth';
+import { parseScoringProfile, SCORING_PROFILES, scoringProfile } from './scoringProfiles';
+import { BUDGET_NAMES, parseBudgets } from './pageWeight';
+
+type Category = keyof ScoreReport['categories'];
+
+interface Thresholds {
+    overallScore?: number;
+    categories?: Partial<Record<Category, number>>;
+    maxCritical?: number;
+}
+
+// The scoring profile is given by name and budgets as sizes like 400KB, on the command line and in config files alike
+interface CliConfig extends Omit<ScanOptions, 'scoringProfile' | 'budgets'> {
+    url?: string;
+    scoringProfile?: string;
+    budgets?: Record<string, string | number>;
+    output?: string;
+    thresholds?: Thresholds;
+}
+
+const USAGE = `Usage: website-check <url> [options]
+
+Options:
+  --devices <ids>             Comma separated device ids (e.g. mobile,desktop-normal)
+  --pages <n>                 Maximum number of pages to scan (default 20)
+  --max-depth <n>             How many links deep to follow from the start page (default 3)
+  --include <pattern>         Only crawl paths matching a glob or /regex/, may be repeated
+  --exclude <pattern>         Skip paths matching a glob or /regex/, may be repeated
+  --subdomains                Also follow links to subdomains of the start host
+  --no-external-links         Skip checking links to other hosts
+  --strip-query <names>       Comma separated query parameters to ignore (default utm_*,gclid,fbclid,msclkid)
+  --trailing-slash <mode>     keep, add or remove trailing slashes when comparing URLs
+  --auth <file>               JSON file with credentials (basic, headers, cookies, storageState, login)
+  --basic-auth <user:pass>    HTTP basic auth credentials
+  --header <name: value>      Extra request header, may be repeated
+  --storage-state <file>      Playwright storage state (cookies) to start logged in
+  --lighthouse                Also run a Lighthouse audit on every page (slower)
+  --screenshots <dir>         Save a full-page screenshot per page and breakpoint into dir
+  --profile <name>            Scoring profile, one of ${Object.keys(SCORING_PROFILES).join(', ')}
+  --budget <name=size>        Page weight budget (e.g. total=2MB, js=400KB, requests=80), may be repeated.
+                              Names: ${BUDGET_NAMES.join(', ')}
+  --user-agent <token>        Product token sent in the user agent, its robots.txt rules are honored (default WebsiteCheckBot)
+  --output <file>             Where to write the JSON report (default website-check-report.json)
+  --config <file>             JSON config file with scan options and thresholds
+  --min-score <n>             Fail when the overall score is below n
+  --min-category <name=n>     Fail when a category score is below n, may be repeated
+  --max-critical <n>          Fail when more than n Critical issues are found
+  -h, --help                  Show this help
+
+Exit codes: 0 passed, 1 a threshold was breached, 2 usage or scan error.`;
+
+class UsageError extends Error { }
+
+function parseNumber(flag: string, value: string | undefined): number {
+    const n = Number(value);
+    if (value === undefined || value === '' || Number.isNaN(n)) {
+        throw new UsageError(`${flag} expects a number`);
+    }
+    return n;
+}
+
+function parseArgs(argv: string[]): CliConfig {
+    const flags: CliConfig = {};
+    const thresholds: Thresholds = {};
+    const crawl: CrawlConfig = {};
+    const auth: AuthConfig = {};
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const next = () => {
+            const value = argv[++i];
+            if (value === undefined) throw new UsageError(`${arg} expects a value`);
+            return value;
+        };
+
+        switch (arg) {
+            case '-h':
+            case '--help':
+                console.error(USAGE);
+                process.exit(0);
+            case '--devices':
+                flags.devices = next().split(',').map(d => d.trim()).filter(Boolean);
+                break;
+            case '--pages':
+                flags.pageLimit = parseNumber(arg, next());
+                break;
+            case '--max-depth':
+                crawl.maxDepth = parseNumber(arg, next());
+                break;
+            case '--include':
+                crawl.include = [...(crawl.include || []), next()];
+                break;
+            case '--exclude':
+                crawl.exclude = [...(crawl.exclude || []), next()];
+                break;
+            case '--subdomains':
+                crawl.followSubdomains = true;
+                break;
+            case '--no-external-links':
+                crawl.checkExternalLinks = false;
+                break;
+            case '--strip-query':
+                crawl.stripQueryParams = next().split(',').map(p => p.trim()).filter(Boolean);
+                break;
+            case '--trailing-slash':
+                crawl.trailingSlash = next() as CrawlConfig['trailingSlash'];
+                break;
+            case '--auth':
+                Object.assign(auth, { ...JSON.parse(fs.readFileSync(next(), 'utf8')), ...auth });
+                break;
+            case '--basic-auth': {
+                const value = next();
+                const separator = value.indexOf(':');
+                if (separator === -1) throw new UsageError('--basic-auth expects user:password');
+                auth.basic = { username: value.slice(0, separator), password: value.slice(separator + 1) };
+                break;
+            }
+            case '--header': {
+                const value = next();
+                const separator = value.indexOf(':');
+                if (separator === -1) throw new UsageError('--header expects "Name: value"');
+                auth.headers = { ...auth.headers, [value.slice(0, separator).trim()]: value.slice(separator + 1).trim() };
+                break;
+            }
+            case '--storage-state':
+                auth.storageState = JSON.parse(fs.readFileSync(next(), 'utf8'));
+                break;
+            case '--lighthouse':
+                flags.lighthouse = true;
+                break;
+            case '--screenshots':
+                flags.screenshotDir = path.resolve(next());
+                break;
+            case '--profile':
+                flags.scoringProfile = next();
+                break;
+            case '--budget': {
+                const value = next();
+                const separator = value.indexOf('=');
+                if (separator === -1) throw new UsageError('--budget expects name=size');
+                flags.budgets = { ...flags.budgets, [value.slice(0, separator).trim()]: value.slice(separator + 1).trim() };
+                break;
+            }
+            case '--user-agent':
+                flags.userAgent = next();
+                break;
+            case '--output':
+                flags.output = next();
+                break;
+            case '--config': {
+                const file = next();
+                const config: CliConfig = JSON.parse(fs.readFileSync(file, 'utf8'));
+                // Flags given on the command line win over the config file, wherever they appear
+                Object.assign(flags, { ...config, ...flags });
+                thresholds.overallScore ??= config.thresholds?.overallScore;
+                thresholds.maxCritical ??= config.thresholds?.maxCritical;
+                thresholds.categories = { ...config.thresholds?.categories, ...thresholds.categories };
+                Object.assign(crawl, { ...config.crawl, ...crawl });
+                Object.assign(auth, { ...config.auth, ...auth });
+                flags.budgets = { ...config.budgets, ...flags.budgets };
+                break;
+            }
+            case '--min-score':
+                thresholds.overallScore = parseNumber(arg, next());
+                break;
+            case '--min-category': {
+                const [name, value] = next().split('=');
+                thresholds.categories = { ...thresholds.categories, [name]: parseNumber(arg, value) };
+                break;
+            }
+            case '--max-critical':
+                thresholds.maxCritical = parseNumber(arg, next());
+                break;
+            default:
+                if (arg.startsWith('-')) throw new UsageError(`Unknown option ${arg}`);
+                flags.url = arg;
+        }
+    }
+
+    try {
+        // Checked here so a bad size is a usage error, converted to bytes when the scan starts
+        parseBudgets(flags.budgets);
+        return {
+            ...flags,
+            crawl: parseCrawlConfig(crawl),
+            auth: parseAuthConfig(auth),
+            scoringProfile: parseScoringProfile(flags.scoringProfile),
+            thresholds
+        };
+    } catch (err) {
+        throw new UsageError((err as Error).message);
+    }
+}
+
+// Returns one message per breached threshold, an empty list means the gate passed
+function evaluateThresholds(report: ScoreReport, thresholds: Thresholds): string[] {
+    const failures: string[] = [];
+
+    if (thresholds.overallScore !== undefined && report.overallScore < thresholds.overallScore) {
+        failures.push(`Overall score ${report.overallScore} is below ${thresholds.overallScore}`);
+    }
+
+    for (const [category, min] of Object.entries(thresholds.categories || {})) {
+        const score = report.categories[category as Category];
+        if (score === undefined) {
+            failures.push(`Unknown category "${category}" in thresholds`);
+        } else if (min !== undefined && score < min) {
+            failures.push(`${category} score ${score} is below ${min}`);
+        }
+    }
+
+    const critical = report.details.filter(issue => issue.severity === 'Critical').length;
+    if (thresholds.maxCritical !== undefined && critical > thresholds.maxCritical) {
+        failures.push(`${critical} Critical issues found, at most ${thresholds.maxCritical} allowed`);
+    }
+
+    return failures;
+}
+
+async function main() {
+    let config: CliConfig;
+    try {
+        config = parseArgs(process.argv.slice(2));
+        if (!config.url) throw new UsageError('A URL to scan is required');
+    } catch (err) {
+        console.error((err as Error).message);
+        console.error(USAGE);
+        process.exit(2);
+    }
+
+    const url = config.url.startsWith('http') ? config.url : `https://${config.url}`;
+    const output = path.resolve(config.output || 'website-check-report.json');
+
+    console.error(`Scanning ${url}`);
+    const report = await runScan(url, { ...config, scoringProfile: scoringProfile(config.scoringProfile), budgets: parseBudgets(config.budgets) }, (message, progress) => {
+        console.error(`[${String(progress).padStart(3)}%] ${message}`);
+    });
+
+    fs.writeFileSync(output, JSON.stringify({ url, timestamp: Date.now(), report }, null, 2));
+    console.error(`Report written to ${output}`);
+
+    console.error(`Overall score: ${report.overallScore} (${report.profile} profile)`);
+    for (const [category, score] of Object.entries(report.categories)) {
+        console.error(`  ${category}: ${score}`);
+    }
+
+    const failures = evaluateThresholds(report, config.thresholds || {});
+    if (failures.length > 0) {
+        console.error('\nQuality gate failed:');
+        failures.forEach(failure => console.error(`  - ${failure}`));
+        process.exit(1);
+    }
+
+    console.error('\nQuality gate passed.');
+}
+
+main().catch(err => {
+    console.error('Scan failed:', err);
+    process.exit(2);
+});
@@ -0,0 +1,235 @@
+export interface CrawlConfig {
+    maxDepth?: number;
+    // Glob (`/blog/**`) or regex (`/^\/docs\//i`) patterns matched against path + query
+    include?: string[];
+    exclude?: string[];
+    followSubdomains?: boolean;
+    // Query parameter names to drop, `*` wildcards allowed (`utm_*`)
+    stripQueryParams?: string[];
+    trailingSlash?: 'keep' | 'add' | 'remove';
+    // Verify links to other hosts, on unless turned off
+    checkExternalLinks?: boolean;
+}
+
+export const DEFAULT_MAX_DEPTH = 3;
+export const DEFAULT_STRIP_QUERY_PARAMS = ['utm_*', 'gclid', 'fbclid', 'msclkid'];
+const MAX_PATTERNS = 50;
+export const MAX_PATTERN_LENGTH = 200;
+
+// Sitemaps, links, canonicals and hreflang alternates disagree about trailing slashes and fragments,
+// compare without them
+export function comparableUrl(url: string): string {
+    try {
+        const parsed = new URL(url);
+        parsed.hash = '';
+        if (parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+            parsed.pathname = parsed.pathname.slice(0, -1);
+        }
+        return parsed.toString();
+    } catch {
+        return url;
+    }
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// `**` crosses path segments, `*` stays inside one
+export function globToRegExp(glob: string): RegExp {
+    const body = glob
+        .split('**')
+        .map(part => part.split('*').map(escapeRegExp).join('[^/]*'))
+        .join('.*');
+    return new RegExp(`^${body}$`);
+}
+
+const isQuantifier = (source: string, index: number) =>
+    source[index] === '*' || source[index] === '+' || (source[index] === '{' && /^\{\d/.test(source.slice(index)));
+
+// Patterns come from API clients and run on the single event loop. A repeated group that itself repeats
+// or alternates, like (a+)+ or (a|ab)*, backtracks exponentially, so those are refused up front.
+function unsafeRegexReason(source: string): string | undefined {
+    if (/\\([1-9]|k<)/.test(source)) return 'backreferences are not supported';
+    // Per open group: does it contain a quantifier or an alternation
+    const groups: boolean[] = [false];
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (char === '\\') {
+            i++;
+        } else if (char === '[') {
+            // Skip the character class, a ] right after the opening [ or [^ is a literal
+            i++;
+            if (source[i] === '^') i++;
+            if (source[i] === ']') i++;
+            while (i < source.length && source[i] !== ']') i += source[i] === '\\' ? 2 : 1;
+        } else if (char === '(') {
+            groups.push(false);
+        } else if (char === ')' && groups.length > 1) {
+            const repeats = groups.pop()!;
+            if (repeats && isQuantifier(source, i + 1)) return 'a repeated group may not contain quantifiers or alternatives, as in (a+)+';
+            groups[groups.length - 1] ||= repeats;
+        } else if (char === '|' || isQuantifier(source, i)) {
+            groups[groups.length - 1] = true;
+        }
+    }
+    return undefined;
+}
+
+export function compileRegExp(source: string, flags = ''): RegExp {
+    if (source.length > MAX_PATTERN_LENGTH) {
+        throw new Error(`patterns are limited to ${MAX_PATTERN_LENGTH} characters`);
+    }
+    const reason = unsafeRegexReason(source);
+    if (reason) throw new Error(reason);
+    // Stateful flags would make repeated test() calls flip-flop
+    return new RegExp(source, flags.replace(/[gy]/g, ''));
+}
+
+export function compilePattern(pattern: string): RegExp {
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+        throw new Error(`patterns are limited to ${MAX_PATTERN_LENGTH} characters`);
+    }
+    const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+    return regex ? compileRegExp(regex[1], regex[2]) : globToRegExp(pattern);
+}
+
+function asStringList(value: unknown, field: string): string[] | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) {
+        throw new Error(`crawl.${field} must be a list of strings`);
+    }
+    const list = value.map(v => v.trim()).filter(Boolean);
+    if (list.length > MAX_PATTERNS) {
+        throw new Error(`crawl.${field} accepts at most ${MAX_PATTERNS} entries`);
+    }
+    return list;
+}
+
+// maxDepth within 0-10, patterns that compile and are safe to run, real booleans and a known trailingSlash mode
+export function parseCrawlConfig(raw: unknown): CrawlConfig {
+    if (raw === undefined || raw === null) return {};
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error('crawl must be an object');
+    }
+    const input = raw as Record<string, unknown>;
+    const config: CrawlConfig = {};
+
+    if (input.maxDepth !== undefined) {
+        const depth = Number(input.maxDepth);
+        if (!Number.isInteger(depth) || depth < 0 || depth > 10) {
+            throw new Error('crawl.maxDepth must be a whole number between 0 and 10');
+        }
+        config.maxDepth = depth;
+    }
+
+    config.include = asStringList(input.include, 'include');
+    config.exclude = asStringList(input.exclude, 'exclude');
+    for (const pattern of [...(config.include || []), ...(config.exclude || [])]) {
+        try {
+            compilePattern(pattern);
+        } catch (err) {
+            throw new Error(`Invalid crawl pattern ${pattern}: ${(err as Error).message}`);
+        }
+    }
+
+    for (const field of ['followSubdomains', 'checkExternalLinks'] as const) {
+        if (input[field] === undefined) continue;
+        // Boolean("false") is true, so strings are refused rather than guessed at
+        if (typeof input[field] !== 'boolean') {
+            throw new Error(`crawl.${field} must be true or false`);
+        }
+        config[field] = input[field] as boolean;
+    }
+
+    config.stripQueryParams = asStringList(input.stripQueryParams, 'stripQueryParams');
+
+    if (input.trailingSlash !== undefined) {
+        if (!['keep', 'add', 'remove'].includes(input.trailingSlash as string)) {
+            throw new Error('crawl.trailingSlash must be one of keep, add or remove');
+        }
+        config.trailingSlash = input.trailingSlash as CrawlConfig['trailingSlash'];
+    }
+
+    // Drop keys that were not provided so stored configs stay small
+    return Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined));
+}
+
+export interface CrawlScope {
+    normalize(url: string): string | null;
+    inScope(url: string): boolean;
+    // http(s) links to hosts the crawl never follows, regardless of include/exclude patterns
+    isExternal(url: string): boolean;
+}
+
+function baseDomain(hostname: string): string {
+    return hostname.replace(/^www\./, '');
+}
+
+export function createCrawlScope(startUrl: string, config: CrawlConfig = {}): CrawlScope {
+    const startHost = new URL(startUrl).hostname;
+    const include = (config.include || []).map(compilePattern);
+    const exclude = (config.exclude || []).map(compilePattern);
+    const stripped = (config.stripQueryParams ?? DEFAULT_STRIP_QUERY_PARAMS).map(globToRegExp);
+    const trailingSlash = config.trailingSlash || 'keep';
+
+    const hostAllowed = (hostname: string) => {
+        if (hostname === startHost) return true;
+        if (!config.followSubdomains) return false;
+        const domain = baseDomain(startHost);
+        return hostname === domain || hostname.endsWith(`.${domain}`);
+    };
+
+    return {
+        // Returns the canonical form used for de-duplication, or null for non-http URLs
+        normalize(url: string): string | null {
+            let parsed: URL;
+            try {
+                parsed = new URL(url);
+            } catch {
+                return null;
+            }
+            if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+
+            parsed.hash = '';
+            for (const name of Array.from(parsed.searchParams.keys())) {
+                if (stripped.some(pattern => pattern.test(name))) {
+                    parsed.searchParams.delete(name);
+                }
+            }
+            parsed.searchParams.sort();
+
+            const isFile = /\.[a-z0-9]+$/i.test(parsed.pathname);
+            if (trailingSlash === 'remove' && parsed.pathname.length > 1 && parsed.pathname.endsWith('/')) {
+                parsed.pathname = parsed.pathname.replace(/\/+$/, '') || '/';
+            } else if (trailingSlash === 'add' && !parsed.pathname.endsWith('/') && !isFile) {
+                parsed.pathname += '/';
+            }
+
+            return parsed.toString();
+        },
+
+        inScope(url: string): boolean {
+            let parsed: URL;
+            try {
+                parsed = new URL(url);
+            } catch {
+                return false;
+            }
+            if (!hostAllowed(parsed.hostname)) return false;
+
+            const target = parsed.pathname + parsed.search;
+            if (include.length > 0 && !include.some(pattern => pattern.test(target))) return false;
+            return !exclude.some(pattern => pattern.test(target));
+        },
+
+        isExternal(url: string): boolean {
+            try {
+                const parsed = new URL(url);
+                return (parsed.protocol === 'http:' || parsed.protocol === 'https:') && !hostAllowed(parsed.hostname);
+            } catch {
+                return false;
+            }
+        }
+    };
+}
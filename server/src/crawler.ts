@@ -1,4 +1,9 @@
-import { chromium, Page } from 'playwright';
+import { chromium, APIRequestContext, Page } from 'playwright';
+import { AuthContext, createSiteRequests, newAuthorizedContext, RequestContextFor, SiteRequests } from './auth';
+import type { Issue } from './scorer';
+import { comparableUrl, CrawlConfig, createCrawlScope, DEFAULT_MAX_DEPTH } from './crawlScope';
+import { crawlerUserAgent, fetchRobotsTxt, isAllowed, loadSitemaps, RobotsTxt, SitemapResult } from './sitemap';
+import { ExternalLink, externalLinkIssues } from './externalLinks';
 
 export interface CrawledPage {
     url: string;
@@ -6,59 +11,249 @@ export interface CrawledPage {
     depth: number;
 }
 
-export async function crawlSite(startUrl: string, maxDepth: number = 3, maxPages: number = 20): Promise<{ url: string; referrer: string | null }[]> {
+export interface CrawlOptions {
+    maxPages?: number;
+    scope?: CrawlConfig;
+    signal?: AbortSignal;
+    // Product token matched against robots.txt User-agent groups and appended to the browser's user agent
+    userAgent?: string;
+    // Signed-in state from resolveAuthContext
+    auth?: AuthContext;
+    // Status lines for the slow parts after the pages are found
+    onProgress?: (message: string) => void;
+}
+
+export interface CrawlResult {
+    pages: { url: string; referrer: string | null }[];
+    // Site-level findings from robots.txt and the sitemap, plus broken outbound links
+    issues: Issue[];
+    // Crawl-delay from robots.txt in milliseconds, the scan keeps the same pace
+    crawlDelayMs: number;
+}
+
+// Sitemap entries that were not crawled get a lightweight status check, up to this many
+const SITEMAP_CHECK_LIMIT = 25;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function checkStatus(api: APIRequestContext, url: string): Promise<number | null> {
+    try {
+        let response = await api.head(url, { timeout: 10000, failOnStatusCode: false });
+        // Some servers refuse HEAD outright, ask again properly before blaming the page
+        if (response.status() === 405 || response.status() === 501) {
+            response = await api.get(url, { timeout: 10000, failOnStatusCode: false });
+        }
+        return response.status();
+    } catch {
+        return null;
+    }
+}
+
+async function sitemapIssues(
+    requestFor: RequestContextFor,
+    startUrl: string,
+    sitemap: SitemapResult,
+    sitemapUrls: string[],
+    robots: RobotsTxt | null,
+    statuses: Map<string, number | null>,
+    delayMs: number,
+    signal?: AbortSignal
+): Promise<Issue[]> {
+    const issues: Issue[] = [];
+    const declared = Boolean(robots?.sitemaps.length);
+
+    // A missing default /sitemap.xml is not an error on its own, it is covered by 'Missing Sitemap'
+    if (declared || sitemap.found) {
+        for (const error of sitemap.errors) {
+            issues.push({
+                category: 'SEO',
+                severity: 'Minor',
+                title: 'Sitemap Unreachable',
+                description: `The sitemap ${error.url} ${error.reason}.`,
+                affectedUrl: error.url
+            });
+        }
+    }
+
+    if (!sitemap.found) {
+        if (!declared) {
+            issues.push({
+                category: 'SEO',
+                severity: 'Suggestion',
+                title: 'Missing Sitemap',
+                description: 'No XML sitemap was found in robots.txt or at /sitemap.xml. A sitemap helps search engines discover every page.',
+                affectedUrl: startUrl
+            });
+        }
+        return issues;
+    }
+
+    const crawledStatuses = new Map(Array.from(statuses.entries()).map(([url, status]) => [comparableUrl(url), status]));
+    let checked = 0;
+
+    for (const url of sitemapUrls) {
+        if (signal?.aborted) break;
+
+        if (!isAllowed(robots, url)) {
+            issues.push({
+                category: 'SEO',
+                severity: 'Minor',
+                title: 'Sitemap URL Blocked by robots.txt',
+                description: `${url} is listed in the sitemap but disallowed by robots.txt.`,
+                affectedUrl: url
+            });
+            continue;
+        }
+
+        let status = crawledStatuses.get(comparableUrl(url));
+        if (status === undefined) {
+            if (checked >= SITEMAP_CHECK_LIMIT) continue;
+            if (checked > 0 && delayMs > 0) await sleep(delayMs);
+            status = await checkStatus(requestFor(url), url);
+            checked++;
+        }
+
+        if (status !== null && status >= 400) {
+            issues.push({
+                category: 'SEO',
+                severity: 'Major',
+                title: 'Broken Sitemap URL',
+                description: `${url} is listed in the sitemap but returned status ${status}.`,
+                affectedUrl: url
+            });
+        }
+    }
+
+    const listed = new Set(sitemapUrls.map(comparableUrl));
+    for (const [url, status] of statuses) {
+        if (status === null || status >= 400 || listed.has(comparableUrl(url))) continue;
+        issues.push({
+            category: 'SEO',
+            severity: 'Suggestion',
+            title: 'Page Missing From Sitemap',
+            description: 'This page was found by following links but is not listed in the XML sitemap.',
+            affectedUrl: url
+        });
+    }
+
+    return issues;
+}
+
+export async function crawlSite(startUrl: string, options: CrawlOptions = {}): Promise<CrawlResult> {
+    const { maxPages = 20, signal, userAgent } = options;
+    const maxDepth = options.scope?.maxDepth ?? DEFAULT_MAX_DEPTH;
+    const scope = createCrawlScope(startUrl, options.scope);
     const visited = new Map<string, string | null>();
-    const queue: { url: string; depth: number; referrer: string | null }[] = [{ url: startUrl, depth: 0, referrer: null }];
-    const domain = new URL(startUrl).hostname;
+    const statuses = new Map<string, number | null>();
+    // The start URL is always scanned, include/exclude patterns only apply to what is discovered from it
+    const queue: { url: string; depth: number; referrer: string | null }[] = [{ url: scope.normalize(startUrl) || startUrl, depth: 0, referrer: null }];
+    const { origin } = new URL(startUrl);
+    const auth = options.auth ?? { origin, contextOptions: {} };
+    const checkExternal = options.scope?.checkExternalLinks ?? true;
+    const externalLinks: ExternalLink[] = [];
 
     const browser = await chromium.launch();
-    const page = await browser.newPage();
+    // Closing the browser interrupts whatever navigation is in flight
+    const onAbort = () => { browser.close().catch(() => { }); };
+    signal?.addEventListener('abort', onAbort);
+
+    let requests: SiteRequests | undefined;
+    let issues: Issue[] = [];
+    let delayMs = 0;
 
     try {
-        while (queue.length > 0 && visited.size < maxPages) {
+        const agent = await crawlerUserAgent(browser, userAgent);
+        requests = await createSiteRequests(auth, agent);
+        const robots = await fetchRobotsTxt(requests.for(origin), origin, userAgent);
+        const declaredSitemaps = robots?.sitemaps.length ? robots.sitemaps : [`${origin}/sitemap.xml`];
+        const sitemap = await loadSitemaps(requests.for, declaredSitemaps);
+        delayMs = (robots?.crawlDelay || 0) * 1000;
+
+        const sitemapUrls = sitemap.urls
+            .map(url => scope.normalize(url))
+            .filter((url): url is string => url !== null && scope.inScope(url));
+
+        // Seed with sitemap entries so pages nobody links to still get audited
+        for (const url of sitemapUrls) {
+            if (isAllowed(robots, url)) {
+                queue.push({ url, depth: 1, referrer: null });
+            }
+        }
+
+        const context = await newAuthorizedContext(browser, auth, { userAgent: agent });
+        const page: Page = await context.newPage();
+
+        while (queue.length > 0 && visited.size < maxPages && !signal?.aborted) {
             const { url, depth, referrer } = queue.shift()!;
 
             if (visited.has(url)) continue;
             if (depth > maxDepth) continue;
 
+            if (visited.size > 0 && delayMs > 0) await sleep(delayMs);
+
             // Mark as visited before navigation to avoid loops, store referrer
             visited.set(url, referrer);
+            statuses.set(url, null);
 
             try {
-                await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 10000 });
-
-                if (depth < maxDepth) {
-                    const links = await page.$$eval('a', (anchors) =>
-                        anchors.map(a => a.href).filter(href => href.startsWith('http'))
-                    );
-
-                    for (const link of links) {
-                        try {
-                            const linkUrl = new URL(link);
-                            // Only internal links
-                            if (linkUrl.hostname === domain && !visited.has(link)) {
-                                const cleanLink = link.split('#')[0];
-                                if (!visited.has(cleanLink)) {
-                                    // Use original cleanLink for queue to avoid reprocessing
-                                    // Pass current 'url' as referrer for these new links
-                                    queue.push({ url: cleanLink, depth: depth + 1, referrer: url });
-                                }
-                            }
-                        } catch (e) {
-                            // ignore invalid URLs
+                const response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 10000 });
+                statuses.set(url, response ? response.status() : null);
+
+                const links = await page.$$eval('a', (anchors) =>
+                    anchors
+                        .filter(a => a.href.startsWith('http'))
+                        .map(a => ({
+                            href: a.href,
+                            text: (a.textContent?.trim() || a.querySelector('img')?.alt || a.getAttribute('aria-label') || '').replace(/\s+/g, ' ').trim().slice(0, 100)
+                        }))
+                );
+
+                const externalOnPage = new Set<string>();
+                for (const { href, text } of links) {
+                    if (scope.isExternal(href)) {
+                        // Fragments never reach the server, one check covers every anchor on the page
+                        const target = href.split('#')[0];
+                        if (checkExternal && !externalOnPage.has(target)) {
+                            externalOnPage.add(target);
+                            externalLinks.push({ url: target, text, referrer: url });
                         }
+                        continue;
+                    }
+                    if (depth >= maxDepth) continue;
+
+                    // Normalizing first means tracking-parameter and slash variants collapse into one page
+                    const cleanLink = scope.normalize(href);
+                    if (cleanLink && scope.inScope(cleanLink) && !visited.has(cleanLink) && isAllowed(robots, cleanLink)) {
+                        // Pass current 'url' as referrer for these new links
+                        queue.push({ url: cleanLink, depth: depth + 1, referrer: url });
                     }
                 }
             } catch (err) {
                 console.error(`Failed to crawl ${url}:`, err);
-                // Even if failed, we visited it (tried to). 
+                // Even if failed, we visited it (tried to).
                 // We keep it in map so we return it and runScan can detect the failure/404 itself
             }
         }
+
+        if (!signal?.aborted) {
+            issues = await sitemapIssues(requests.for, startUrl, sitemap, sitemapUrls, robots, statuses, delayMs, signal);
+        }
+        if (!signal?.aborted && externalLinks.length > 0) {
+            // Link results are cached across scans and sites, so they are never fetched with credentials
+            issues.push(...await externalLinkIssues(requests.bare, externalLinks, signal, (checked, total) =>
+                options.onProgress?.(`Checked ${checked} of ${total} external links...`)
+            ));
+        }
     } finally {
+        signal?.removeEventListener('abort', onAbort);
         await browser.close();
+        await requests?.dispose();
     }
 
     // Convert Map to array of objects
-    return Array.from(visited.entries()).map(([url, referrer]) => ({ url, referrer }));
+    return {
+        pages: Array.from(visited.entries()).map(([url, referrer]) => ({ url, referrer })),
+        issues,
+        crawlDelayMs: delayMs
+    };
 }
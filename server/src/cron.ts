@@ -0,0 +1,133 @@
+// Standard five-field cron expressions (minute hour day-of-month month day-of-week),
+// evaluated in UTC. Supports `*`, lists, ranges, steps and JAN-DEC / SUN-SAT names.
+
+export interface CronSchedule {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    // Cron matches either day field when both are restricted, otherwise both must match
+    anyDay: boolean;
+}
+
+interface FieldSpec {
+    name: string;
+    min: number;
+    max: number;
+    names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+    // 7 is accepted as Sunday like most crons do
+    { name: 'day of week', min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] }
+];
+
+const SHORTHANDS: Record<string, string> = {
+    '@hourly': '0 * * * *',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@weekly': '0 0 * * 0',
+    '@monthly': '0 0 1 * *',
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *'
+};
+
+// Searching further than this means the expression can never fire (e.g. 30 February)
+const MAX_SEARCH_DAYS = 366 * 5;
+
+function parseValue(value: string, spec: FieldSpec): number {
+    const nameIndex = spec.names?.indexOf(value.toUpperCase()) ?? -1;
+    const n = nameIndex !== -1 ? spec.min + nameIndex : (/^\d+$/.test(value) ? Number(value) : NaN);
+    if (Number.isNaN(n) || n < spec.min || n > spec.max) {
+        throw new Error(`Invalid ${spec.name} "${value}" in cron expression`);
+    }
+    return n;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+    const values = new Set<number>();
+    for (const part of field.split(',')) {
+        const [range, stepText] = part.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (!Number.isInteger(step) || step < 1) {
+            throw new Error(`Invalid step "${stepText}" in cron expression`);
+        }
+
+        let start = spec.min;
+        let end = spec.max;
+        if (range !== '*') {
+            const [from, to] = range.split('-');
+            start = parseValue(from, spec);
+            // A bare value with a step (5/15) runs from that value to the end of the range
+            end = to !== undefined ? parseValue(to, spec) : (stepText !== undefined ? spec.max : start);
+            if (end < start) {
+                throw new Error(`Invalid range "${range}" in cron expression`);
+            }
+        }
+
+        for (let n = start; n <= end; n += step) {
+            values.add(n);
+        }
+    }
+    return values;
+}
+
+// Throws with a message fit for a 400 when the expression is malformed
+export function parseCron(expression: string): CronSchedule {
+    const normalized = SHORTHANDS[expression.trim().toLowerCase()] || expression.trim();
+    const fields = normalized.split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error('Cron expression must have five fields: minute hour day-of-month month day-of-week');
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i]));
+    if (daysOfWeek.delete(7)) {
+        daysOfWeek.add(0);
+    }
+
+    return {
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        anyDay: fields[2] !== '*' && fields[4] !== '*'
+    };
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+    const monthDay = schedule.daysOfMonth.has(date.getUTCDate());
+    const weekDay = schedule.daysOfWeek.has(date.getUTCDay());
+    return schedule.anyDay ? monthDay || weekDay : monthDay && weekDay;
+}
+
+// First matching minute strictly after `after`, or null when the expression never fires
+export function nextRun(schedule: CronSchedule, after: Date): Date | null {
+    const candidate = new Date(after.getTime());
+    candidate.setUTCSeconds(0, 0);
+    candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+    const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000;
+    while (candidate.getTime() <= limit) {
+        if (!schedule.months.has(candidate.getUTCMonth() + 1) || !dayMatches(schedule, candidate)) {
+            // Skip the rest of the day
+            candidate.setUTCHours(24, 0, 0, 0);
+            continue;
+        }
+        if (!schedule.hours.has(candidate.getUTCHours())) {
+            candidate.setUTCHours(candidate.getUTCHours() + 1, 0, 0, 0);
+            continue;
+        }
+        if (!schedule.minutes.has(candidate.getUTCMinutes())) {
+            candidate.setUTCMinutes(candidate.getUTCMinutes() + 1, 0, 0);
+            continue;
+        }
+        return candidate;
+    }
+    return null;
+}
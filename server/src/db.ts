@@ -0,0 +1,153 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+export type DB = Database.Database;
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS scans (
+        id TEXT PRIMARY KEY,
+        url TEXT NOT NULL,
+        host TEXT NOT NULL,
+        devices TEXT NOT NULL,
+        page_limit INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        progress INTEGER NOT NULL,
+        message TEXT NOT NULL,
+        report TEXT,
+        timestamp INTEGER NOT NULL,
+        queue_position INTEGER,
+        estimated_wait_time INTEGER
+    );
+    CREATE INDEX IF NOT EXISTS idx_scans_host ON scans (host, timestamp);
+    CREATE INDEX IF NOT EXISTS idx_scans_status ON scans (status, timestamp);
+
+    CREATE TABLE IF NOT EXISTS scan_pages (
+        scan_id TEXT NOT NULL REFERENCES scans (id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        url TEXT NOT NULL,
+        score INTEGER NOT NULL,
+        metrics TEXT NOT NULL,
+        category_scores TEXT NOT NULL,
+        issues TEXT NOT NULL,
+        PRIMARY KEY (scan_id, position)
+    );
+
+    CREATE TABLE IF NOT EXISTS visual_baselines (
+        url TEXT NOT NULL,
+        device TEXT NOT NULL,
+        host TEXT NOT NULL,
+        scan_id TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        PRIMARY KEY (url, device)
+    );
+
+    CREATE TABLE IF NOT EXISTS schedules (
+        id TEXT PRIMARY KEY,
+        url TEXT NOT NULL,
+        devices TEXT NOT NULL,
+        page_limit INTEGER NOT NULL,
+        cron TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        next_run_at INTEGER,
+        last_run_at INTEGER,
+        last_scan_id TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_schedules_next_run ON schedules (next_run_at);
+
+    -- Registered by either a scan or a schedule, the secret never leaves the server
+    CREATE TABLE IF NOT EXISTS webhooks (
+        id TEXT PRIMARY KEY,
+        scan_id TEXT REFERENCES scans (id) ON DELETE CASCADE,
+        schedule_id TEXT REFERENCES schedules (id) ON DELETE CASCADE,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        events TEXT NOT NULL,
+        regressions_only INTEGER NOT NULL DEFAULT 0
+    );
+    CREATE INDEX IF NOT EXISTS idx_webhooks_scan ON webhooks (scan_id);
+    CREATE INDEX IF NOT EXISTS idx_webhooks_schedule ON webhooks (schedule_id);
+
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        webhook_id TEXT NOT NULL REFERENCES webhooks (id) ON DELETE CASCADE,
+        scan_id TEXT NOT NULL,
+        event TEXT NOT NULL,
+        url TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        response_status INTEGER,
+        error TEXT,
+        next_attempt_at INTEGER,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries (status, next_attempt_at);
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_scan ON webhook_deliveries (scan_id, created_at);
+
+    -- Triage is per site and outlives the scans it was made on
+    CREATE TABLE IF NOT EXISTS triage_decisions (
+        host TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        status TEXT NOT NULL,
+        note TEXT,
+        rule_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        affected_url TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (host, fingerprint)
+    );
+
+    CREATE TABLE IF NOT EXISTS ignore_rules (
+        id TEXT PRIMARY KEY,
+        host TEXT NOT NULL,
+        issue TEXT NOT NULL,
+        description TEXT,
+        path TEXT,
+        note TEXT,
+        created_at INTEGER NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS idx_ignore_rules_host ON ignore_rules (host);
+`;
+
+// Appended in order, never edited once shipped. PRAGMA user_version records how many have run.
+const MIGRATIONS: string[] = [
+    `ALTER TABLE scans ADD COLUMN crawl TEXT`,
+    `ALTER TABLE scans ADD COLUMN auth_methods TEXT`,
+    `ALTER TABLE scans ADD COLUMN lighthouse INTEGER NOT NULL DEFAULT 0`,
+    `ALTER TABLE scan_pages ADD COLUMN lighthouse TEXT`,
+    `ALTER TABLE scan_pages ADD COLUMN screenshots TEXT`,
+    `ALTER TABLE scans ADD COLUMN visual TEXT`,
+    `ALTER TABLE scan_pages ADD COLUMN visual_diffs TEXT`,
+    `ALTER TABLE scans ADD COLUMN schedule_id TEXT`,
+    `ALTER TABLE scans ADD COLUMN scoring_profile TEXT`,
+    `ALTER TABLE schedules ADD COLUMN scoring_profile TEXT`,
+    `ALTER TABLE scan_pages ADD COLUMN social_preview TEXT`,
+    `ALTER TABLE scan_pages ADD COLUMN structured_data TEXT`,
+    `ALTER TABLE scans ADD COLUMN budgets TEXT`
+];
+
+function migrate(db: Database.Database) {
+    const applied = db.pragma('user_version', { simple: true }) as number;
+    MIGRATIONS.slice(applied).forEach((sql, index) => {
+        db.transaction(() => {
+            db.exec(sql);
+            db.pragma(`user_version = ${applied + index + 1}`);
+        })();
+    });
+}
+
+export function openDatabase(file: string = process.env.DATABASE_PATH || path.join(__dirname, '..', 'data', 'scans.db')): DB {
+    if (file !== ':memory:') {
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+    }
+
+    const db = new Database(file);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    db.exec(SCHEMA);
+    migrate(db);
+    return db;
+}
@@ -0,0 +1,92 @@
+import type { Issue, ScoreReport } from './scorer';
+
+type Category = keyof ScoreReport['categories'];
+
+export interface ScoreDelta {
+    base: number;
+    head: number;
+    delta: number;
+}
+
+export interface PageDelta {
+    url: string;
+    status: 'added' | 'removed' | 'both';
+    baseScore?: number;
+    headScore?: number;
+    delta?: number;
+}
+
+export interface ReportDiff {
+    overall: ScoreDelta;
+    categories: Record<Category, ScoreDelta>;
+    pages: PageDelta[];
+    issues: {
+        new: Issue[];
+        fixed: Issue[];
+        persisting: Issue[];
+    };
+}
+
+// Numbers in descriptions (counts, timings, status codes) change between runs
+// without the finding itself changing, so they are masked out of the key.
+export function normalizeDescription(description: string): string {
+    return description
+        .replace(/\d+(\.\d+)?/g, '#')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .toLowerCase();
+}
+
+export function issueKey(issue: Issue): string {
+    return [issue.affectedUrl, issue.category, issue.title, normalizeDescription(issue.description)].join('::');
+}
+
+function delta(base: number, head: number): ScoreDelta {
+    return { base, head, delta: head - base };
+}
+
+export function diffReports(base: ScoreReport, head: ScoreReport): ReportDiff {
+    // Issues can legitimately repeat (same console error twice), so match them as a multiset
+    const remaining = new Map<string, Issue[]>();
+    for (const issue of base.details) {
+        const key = issueKey(issue);
+        remaining.set(key, [...(remaining.get(key) || []), issue]);
+    }
+
+    const newIssues: Issue[] = [];
+    const persisting: Issue[] = [];
+    for (const issue of head.details) {
+        const matches = remaining.get(issueKey(issue));
+        if (matches && matches.length > 0) {
+            matches.shift();
+            persisting.push(issue);
+        } else {
+            newIssues.push(issue);
+        }
+    }
+    const fixed = Array.from(remaining.values()).flat();
+
+    const categories = {} as Record<Category, ScoreDelta>;
+    for (const category of Object.keys(head.categories) as Category[]) {
+        categories[category] = delta(base.categories[category] ?? 100, head.categories[category]);
+    }
+
+    const basePages = new Map(base.pages.map(page => [page.url, page.score]));
+    const headPages = new Map(head.pages.map(page => [page.url, page.score]));
+    const urls = Array.from(new Set([...basePages.keys(), ...headPages.keys()]));
+
+    const pages: PageDelta[] = urls.map(url => {
+        const baseScore = basePages.get(url);
+        const headScore = headPages.get(url);
+        if (baseScore === undefined) return { url, status: 'added', headScore };
+        if (headScore === undefined) return { url, status: 'removed', baseScore };
+        return { url, status: 'both', baseScore, headScore, delta: headScore - baseScore };
+    });
+
+    return {
+        overall: delta(base.overallScore, head.overallScore),
+        categories,
+        pages,
+        issues: { new: newIssues, fixed, persisting }
+    };
+}
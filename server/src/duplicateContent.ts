@@ -0,0 +1,234 @@
+import crypto from 'crypto';
+import type { Issue } from './scorer';
+import { comparableUrl } from './crawlScope';
+
+// What a page says about itself, collected while it is scanned and compared once every page is done
+export interface PageSignals {
+    url: string;
+    status: number | null;
+    title: string;
+    description: string;
+    h1: string;
+    // Absolute canonical URL, empty when the page has none
+    canonical: string;
+    // Exact match on the visible text
+    contentHash: string;
+    // 64-bit SimHash of the visible text, pages a few bits apart are near-identical
+    simhash: bigint;
+    words: number;
+}
+
+export type StatusLookup = (url: string) => Promise<number | null>;
+
+// Bits two SimHashes may differ by and still count as the same page with minor edits
+const NEAR_DUPLICATE_DISTANCE = 3;
+// Shorter pages (login forms, error pages) look alike without being copies
+const MIN_WORDS = 50;
+const SHINGLE_SIZE = 3;
+// Canonical targets outside the crawl get a status check, up to this many
+const CANONICAL_CHECK_LIMIT = 25;
+
+function normalizeText(value: string): string {
+    return value.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// "Blog - Page 2" and "Blog - Page 3" only differ by what a template fills in
+function templateKey(value: string): string {
+    return normalizeText(value).replace(/[\d\p{P}\p{S}]+/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function simhash(words: string[]): bigint {
+    const counts = new Array<number>(64).fill(0);
+    for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+        const shingle = words.slice(i, i + SHINGLE_SIZE).join(' ');
+        const hash = crypto.createHash('md5').update(shingle).digest().readBigUInt64BE(0);
+        for (let bit = 0; bit < 64; bit++) {
+            counts[bit] += (hash >> BigInt(bit)) & 1n ? 1 : -1;
+        }
+    }
+    return counts.reduce((value, count, bit) => (count > 0 ? value | (1n << BigInt(bit)) : value), 0n);
+}
+
+function hammingDistance(a: bigint, b: bigint): number {
+    let diff = a ^ b;
+    let distance = 0;
+    while (diff) {
+        distance += Number(diff & 1n);
+        diff >>= 1n;
+    }
+    return distance;
+}
+
+// Hashes the text right away so the full body of every page is not held until the end of the scan
+export function pageSignals(url: string, status: number | null, meta: { title: string; description: string; h1: string; canonical: string; text: string }): PageSignals {
+    const text = normalizeText(meta.text);
+    const words = text.split(' ').filter(Boolean);
+    return {
+        url,
+        status,
+        title: meta.title.trim(),
+        description: meta.description.trim(),
+        h1: meta.h1.trim(),
+        canonical: meta.canonical,
+        contentHash: crypto.createHash('sha256').update(text).digest('hex'),
+        simhash: simhash(words),
+        words: words.length
+    };
+}
+
+// Stable order, so the same page stays the original from one scan to the next
+function byUrl(group: PageSignals[]): PageSignals[] {
+    return [...group].sort((a, b) => a.url.localeCompare(b.url));
+}
+
+function groupBy(pages: PageSignals[], key: (page: PageSignals) => string): PageSignals[][] {
+    const groups = new Map<string, PageSignals[]>();
+    for (const page of pages) {
+        const value = key(page);
+        if (!value) continue;
+        groups.set(value, [...(groups.get(value) || []), page]);
+    }
+    return Array.from(groups.values()).filter(group => group.length > 1).map(byUrl);
+}
+
+// Same description for the whole group, so the report collapses it into one finding listing every page.
+// Descriptions leave out page counts and URLs, the fingerprint would change whenever the group does.
+function sharedIssues(groups: PageSignals[][], issue: (group: PageSignals[]) => Omit<Issue, 'affectedUrl'>): Issue[] {
+    return groups.flatMap(group => {
+        const shared = issue(group);
+        return group.map(page => ({ ...shared, affectedUrl: page.url }));
+    });
+}
+
+// Near matches are not transitive enough to share one message, so the first URL of the group stands
+// as the original and the others are reported as copies of it
+function copyIssues(groups: PageSignals[][], issue: (original: PageSignals) => Omit<Issue, 'affectedUrl'>): Issue[] {
+    return groups.flatMap(([original, ...copies]) => {
+        const shared = issue(original);
+        return copies.map(copy => ({ ...shared, affectedUrl: copy.url }));
+    });
+}
+
+// Exact matches first, then pages that only match once template values are stripped
+function metadataIssues(pages: PageSignals[], field: 'title' | 'description', label: string): Issue[] {
+    const exact = groupBy(pages, page => normalizeText(page[field]));
+    const exactUrls = new Set(exact.flat().map(page => page.url));
+    const near = groupBy(pages.filter(page => !exactUrls.has(page.url)), page => templateKey(page[field]));
+
+    return [
+        ...sharedIssues(exact, group => ({
+            category: 'SEO',
+            severity: 'Minor',
+            title: `Duplicate ${label}`,
+            description: `The ${label.toLowerCase()} "${group[0][field]}" is used by several pages, each page should describe itself.`
+        })),
+        ...copyIssues(near, original => ({
+            category: 'SEO',
+            severity: 'Suggestion',
+            title: `Near-Duplicate ${label}`,
+            description: `The ${label.toLowerCase()} only differs in numbers or punctuation from "${original[field]}" on ${original.url}.`
+        }))
+    ];
+}
+
+// Union-find over near pairs, pairwise is fine at crawl sizes
+function nearDuplicateClusters(pages: PageSignals[]): PageSignals[][] {
+    const parent = pages.map((_, index) => index);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    for (let i = 0; i < pages.length; i++) {
+        for (let j = i + 1; j < pages.length; j++) {
+            if (hammingDistance(pages[i].simhash, pages[j].simhash) <= NEAR_DUPLICATE_DISTANCE) {
+                parent[find(j)] = find(i);
+            }
+        }
+    }
+    const clusters = new Map<number, PageSignals[]>();
+    pages.forEach((page, index) => clusters.set(find(index), [...(clusters.get(find(index)) || []), page]));
+    return Array.from(clusters.values()).filter(cluster => cluster.length > 1).map(byUrl);
+}
+
+function contentIssues(pages: PageSignals[]): Issue[] {
+    const candidates = pages.filter(page => page.words >= MIN_WORDS);
+    const exact = groupBy(candidates, page => page.contentHash);
+    // Identical pages are compared once, through their first URL
+    const exactCopies = new Set(exact.flatMap(group => group.slice(1)).map(page => page.url));
+    const near = nearDuplicateClusters(candidates.filter(page => !exactCopies.has(page.url)));
+
+    const consolidate = 'Consolidate the pages or point the canonical tag at the original.';
+    return [
+        ...copyIssues(exact, original => ({
+            category: 'SEO',
+            severity: 'Major',
+            title: 'Duplicate Content',
+            description: `This page serves exactly the same content as ${original.url}. ${consolidate}`
+        })),
+        ...copyIssues(near, original => ({
+            category: 'SEO',
+            severity: 'Minor',
+            title: 'Near-Duplicate Content',
+            description: `This page is a near-identical copy of ${original.url}. ${consolidate}`
+        }))
+    ];
+}
+
+async function canonicalIssues(pages: PageSignals[], statusOf: StatusLookup): Promise<Issue[]> {
+    const crawled = new Map(pages.map(page => [comparableUrl(page.url), page]));
+    const outside = new Map<string, number | null>();
+    const issues: Issue[] = [];
+
+    for (const page of pages) {
+        if (!page.canonical) continue;
+        const target = comparableUrl(page.canonical);
+        if (target === comparableUrl(page.url)) continue;
+
+        let status = crawled.get(target)?.status;
+        if (status === undefined) {
+            if (!outside.has(target)) {
+                if (outside.size >= CANONICAL_CHECK_LIMIT) continue;
+                outside.set(target, await statusOf(page.canonical));
+            }
+            status = outside.get(target)!;
+        }
+
+        if (status !== 200) {
+            issues.push({
+                category: 'SEO',
+                severity: 'Major',
+                title: 'Canonical Points to Non-200 URL',
+                description: status === null
+                    ? `The canonical URL ${page.canonical} could not be fetched, search engines will ignore the tag.`
+                    : `The canonical URL ${page.canonical} returned status ${status}, search engines will ignore the tag.`,
+                affectedUrl: page.url
+            });
+        } else if (!crawled.has(target)) {
+            issues.push({
+                category: 'SEO',
+                severity: 'Suggestion',
+                title: 'Canonical Target Not Crawled',
+                description: `The canonical URL ${page.canonical} is not among the crawled pages, link to it internally so search engines find it too.`,
+                affectedUrl: page.url
+            });
+        }
+    }
+    return issues;
+}
+
+export async function duplicateContentIssues(pages: PageSignals[], statusOf: StatusLookup): Promise<Issue[]> {
+    // Only pages that loaded properly, and none that already declare another URL as the original
+    const comparable = pages.filter(page =>
+        page.status === 200 && (!page.canonical || comparableUrl(page.canonical) === comparableUrl(page.url))
+    );
+
+    return [
+        ...metadataIssues(comparable, 'title', 'Title'),
+        ...metadataIssues(comparable, 'description', 'Meta Description'),
+        ...sharedIssues(groupBy(comparable, page => normalizeText(page.h1)), group => ({
+            category: 'SEO',
+            severity: 'Suggestion',
+            title: 'Duplicate H1',
+            description: `The H1 "${group[0].h1}" is used by several pages.`
+        })),
+        ...contentIssues(comparable),
+        ...await canonicalIssues(pages, statusOf)
+    ];
+}
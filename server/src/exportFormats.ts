@@ -0,0 +1,168 @@
+import crypto from 'crypto';
+import { Issue, ruleIdOf, ScoreReport } from './scorer';
+import { issueKey } from './diff';
+
+export type ExportFormat = 'json' | 'csv' | 'sarif' | 'junit';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+    json: { contentType: 'application/json', extension: 'json' },
+    csv: { contentType: 'text/csv', extension: 'csv' },
+    sarif: { contentType: 'application/sarif+json', extension: 'sarif' },
+    junit: { contentType: 'application/xml', extension: 'xml' }
+};
+
+export function isExportFormat(format: unknown): format is ExportFormat {
+    return typeof format === 'string' && Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, format);
+}
+
+// Bump whenever a field is renamed or removed, additions keep the version
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export interface ExportSubject {
+    id: string;
+    url: string;
+    timestamp: number;
+}
+
+const TOOL_NAME = 'website-check';
+
+export function toJsonExport(subject: ExportSubject, report: ScoreReport): string {
+    return JSON.stringify({
+        schema: `${TOOL_NAME}/report`,
+        schemaVersion: EXPORT_SCHEMA_VERSION,
+        scan: { id: subject.id, url: subject.url, timestamp: new Date(subject.timestamp).toISOString() },
+        report
+    }, null, 2);
+}
+
+const CSV_COLUMNS = ['url', 'category', 'severity', 'title', 'description', 'ruleId', 'wcag', 'elements'];
+
+function csvCell(value: string): string {
+    // Spreadsheets run cells starting with these as formulas, page content must never do that
+    const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCsv(report: ScoreReport): string {
+    const rows = report.details.map(issue => [
+        issue.affectedUrl,
+        issue.category,
+        issue.severity,
+        issue.title,
+        issue.description,
+        ruleIdOf(issue),
+        (issue.wcag || []).join(' '),
+        (issue.elements || []).join(' | ')
+    ]);
+    return [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+const SARIF_LEVEL: Record<Issue['severity'], 'error' | 'warning' | 'note'> = {
+    Critical: 'error',
+    Major: 'error',
+    Minor: 'warning',
+    Suggestion: 'note'
+};
+
+export function toSarif(subject: ExportSubject, report: ScoreReport): string {
+    const rules = new Map<string, object>();
+    for (const issue of report.details) {
+        const id = ruleIdOf(issue);
+        if (rules.has(id)) continue;
+        rules.set(id, {
+            id,
+            name: issue.title,
+            shortDescription: { text: issue.title },
+            properties: { category: issue.category, tags: [issue.category, ...(issue.wcag || []).map(sc => `WCAG ${sc}`)] }
+        });
+    }
+
+    const results = report.details.map(issue => ({
+        ruleId: ruleIdOf(issue),
+        level: SARIF_LEVEL[issue.severity],
+        message: { text: `${issue.title}: ${issue.description}` },
+        locations: [{
+            physicalLocation: { artifactLocation: { uri: issue.affectedUrl } },
+            ...(issue.elements?.length ? { logicalLocations: issue.elements.map(selector => ({ name: selector, kind: 'element' })) } : {})
+        }],
+        // Same key the scan diff matches on, so code-scanning UIs track a finding across runs
+        partialFingerprints: { issueKey: crypto.createHash('sha256').update(issueKey(issue)).digest('hex') },
+        ...(issue.triage ? {
+            suppressions: [{
+                kind: 'external',
+                status: 'accepted',
+                justification: issue.triage.note || issue.triage.status.replace('_', ' ')
+            }]
+        } : {}),
+        properties: { severity: issue.severity, category: issue.category }
+    }));
+
+    return JSON.stringify({
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: { driver: { name: TOOL_NAME, rules: Array.from(rules.values()) } },
+            invocations: [{ executionSuccessful: true, endTimeUtc: new Date(subject.timestamp).toISOString() }],
+            results
+        }]
+    }, null, 2);
+}
+
+function xml(value: string | number): string {
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+        // Control characters are not allowed anywhere in XML 1.0
+        .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+interface JunitSuite {
+    tests: number;
+    failures: number;
+    markup: string;
+}
+
+function junitSuite(name: string, issues: Issue[], timestamp: string): JunitSuite {
+    // Triaged issues were accepted by someone, they never fail a build
+    const blocking = issues.filter(issue => !issue.triage && (issue.severity === 'Critical' || issue.severity === 'Major'));
+    const cases = blocking.length > 0
+        ? blocking.map(issue => `
+    <testcase classname="${xml(issue.category)}" name="${xml(issue.title)}">
+      <failure type="${xml(issue.severity)}" message="${xml(issue.title)}">${xml(issue.description)}</failure>
+    </testcase>`).join('')
+        : `
+    <testcase classname="${xml(name)}" name="No Critical or Major issues"/>`;
+    const tests = Math.max(blocking.length, 1);
+
+    return {
+        tests,
+        failures: blocking.length,
+        markup: `
+  <testsuite name="${xml(name)}" tests="${tests}" failures="${blocking.length}" errors="0" skipped="0" timestamp="${timestamp}">${cases}
+  </testsuite>`
+    };
+}
+
+// One suite per page, only Critical and Major issues fail a build
+export function toJunit(subject: ExportSubject, report: ScoreReport): string {
+    const timestamp = new Date(subject.timestamp).toISOString().slice(0, 19);
+    const suites = report.pages.map(page => junitSuite(page.url, page.issues, timestamp));
+
+    // Site-wide findings such as sitemap problems do not belong to any scanned page
+    const pageUrls = new Set(report.pages.map(page => page.url));
+    const siteIssues = report.details.filter(issue => !pageUrls.has(issue.affectedUrl));
+    if (siteIssues.length > 0) {
+        suites.push(junitSuite(subject.url, siteIssues, timestamp));
+    }
+
+    const tests = suites.reduce((sum, suite) => sum + suite.tests, 0);
+    const failures = suites.reduce((sum, suite) => sum + suite.failures, 0);
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="${xml(`${TOOL_NAME} ${subject.url}`)}" tests="${tests}" failures="${failures}">${suites.map(suite => suite.markup).join('')}
+</testsuites>
+`;
+}
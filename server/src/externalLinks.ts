@@ -0,0 +1,245 @@
+import { APIRequestContext } from 'playwright';
+import type { Issue } from './scorer';
+
+export interface ExternalLink {
+    url: string;
+    // Visible text, image alt or aria-label, whatever a reader would recognise the link by
+    text: string;
+    // The crawled page the link was found on
+    referrer: string;
+}
+
+export interface LinkCheckResult {
+    // Final status after following redirects, null when no response came back
+    status: number | null;
+    redirects: number;
+    error?: 'dns' | 'timeout' | 'unreachable' | 'redirect-loop';
+    reason?: string;
+}
+
+const REQUEST_TIMEOUT = 10000;
+const MAX_REDIRECTS = 10;
+// Each hop costs the visitor a round trip, past this many it is worth updating the link
+const LONG_REDIRECT_CHAIN = 3;
+// Distinct external URLs checked per crawl, the rest are skipped
+export const MAX_EXTERNAL_LINKS = 200;
+const CONCURRENCY = 4;
+// Minimum gap between two requests to the same host, across every scan
+const HOST_INTERVAL_MS = 1000;
+const CACHE_TTL_MS = 60 * 60 * 1000;
+// Timeouts, DNS failures, 5xx and throttling may clear up by the next scan
+const RETRY_TTL_MS = 60 * 1000;
+const PROGRESS_EVERY = 10;
+const MAX_CACHE_ENTRIES = 5000;
+
+// Partner sites rarely change between scans, so results are shared by every crawl in the process.
+// Pending checks are cached too, two pages linking the same URL at once only trigger one request.
+interface CacheEntry {
+    result: Promise<LinkCheckResult>;
+    expiresAt: number;
+}
+
+const cache = new Map<string, CacheEntry>();
+const nextSlotByHost = new Map<string, number>();
+
+// Resolves early on abort, a scan cancelled while queued behind a busy host should not wait its turn
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+        const done = () => {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', done);
+            resolve();
+        };
+        const timer = setTimeout(done, ms);
+        signal?.addEventListener('abort', done);
+    });
+}
+
+async function waitForHost(host: string, signal?: AbortSignal) {
+    const now = Date.now();
+    if (nextSlotByHost.size > 1000) {
+        for (const [key, slot] of nextSlotByHost) {
+            if (slot < now) nextSlotByHost.delete(key);
+        }
+    }
+    const slot = Math.max(now, nextSlotByHost.get(host) ?? 0);
+    nextSlotByHost.set(host, slot + HOST_INTERVAL_MS);
+    if (slot > now) await sleep(slot - now, signal);
+}
+
+function classifyError(err: unknown): Pick<LinkCheckResult, 'error' | 'reason'> {
+    const message = err instanceof Error ? err.message : String(err);
+    if (/ENOTFOUND|EAI_AGAIN|ERR_NAME_NOT_RESOLVED/.test(message)) {
+        return { error: 'dns', reason: 'the domain does not resolve' };
+    }
+    if (/timeout|timed out|ETIMEDOUT/i.test(message)) {
+        return { error: 'timeout', reason: `no response within ${REQUEST_TIMEOUT / 1000}s` };
+    }
+    // First line only, playwright appends the whole call log
+    return { error: 'unreachable', reason: message.split('\n')[0] };
+}
+
+async function request(api: APIRequestContext, url: string): Promise<{ status: number; location?: string }> {
+    const options = { timeout: REQUEST_TIMEOUT, failOnStatusCode: false, maxRedirects: 0 };
+    let response = await api.head(url, options);
+    try {
+        // Some servers refuse HEAD outright, ask again properly before blaming the link
+        if (response.status() === 405 || response.status() === 501) {
+            await response.dispose();
+            response = await api.get(url, options);
+        }
+        return { status: response.status(), location: response.headers()['location'] };
+    } finally {
+        await response.dispose();
+    }
+}
+
+// Follows redirects by hand so the length of the chain is known
+async function checkLink(api: APIRequestContext, url: string, signal?: AbortSignal): Promise<LinkCheckResult> {
+    const seen = new Set<string>();
+    let current = url;
+    for (let redirects = 0; ; redirects++) {
+        if (seen.has(current) || redirects > MAX_REDIRECTS) {
+            return { status: null, redirects, error: 'redirect-loop', reason: `redirects more than ${MAX_REDIRECTS} times or in a loop` };
+        }
+        seen.add(current);
+
+        await waitForHost(new URL(current).hostname, signal);
+        // Neither a result nor an error, nothing is reported or kept
+        if (signal?.aborted) return { status: null, redirects };
+
+        let response: { status: number; location?: string };
+        try {
+            response = await request(api, current);
+        } catch (err) {
+            // The cancelled scan disposes its request context, that says nothing about the link
+            if (signal?.aborted) return { status: null, redirects };
+            return { status: null, redirects, ...classifyError(err) };
+        }
+
+        if (response.status >= 300 && response.status < 400 && response.location) {
+            try {
+                current = new URL(response.location, current).toString();
+            } catch {
+                return { status: response.status, redirects, error: 'unreachable', reason: `redirects to an invalid address ${response.location}` };
+            }
+            continue;
+        }
+        return { status: response.status, redirects };
+    }
+}
+
+// Neither a status nor an error: the scan that started the check was cancelled
+function isCancelled(result: LinkCheckResult): boolean {
+    return result.status === null && !result.error;
+}
+
+// Only settled answers are kept for the hour
+function cacheLifetime(result: LinkCheckResult): number {
+    if (isCancelled(result)) return 0;
+    if (result.error === 'redirect-loop') return CACHE_TTL_MS;
+    if (result.error || result.status === null || result.status >= 500 || result.status === 429) return RETRY_TTL_MS;
+    return CACHE_TTL_MS;
+}
+
+function startCheck(api: APIRequestContext, url: string, signal?: AbortSignal): CacheEntry {
+    if (cache.size >= MAX_CACHE_ENTRIES) {
+        // Maps iterate in insertion order, so this drops the oldest entry
+        cache.delete(cache.keys().next().value as string);
+    }
+    const entry = { result: checkLink(api, url, signal), expiresAt: Date.now() + CACHE_TTL_MS };
+    cache.set(url, entry);
+    entry.result.then(result => {
+        entry.expiresAt = Date.now() + cacheLifetime(result);
+    });
+    return entry;
+}
+
+// Stops waiting on this caller's cancel, whoever started the check
+function abortable(result: Promise<LinkCheckResult>, signal?: AbortSignal): Promise<LinkCheckResult> {
+    if (!signal) return result;
+    return new Promise((resolve, reject) => {
+        const onAbort = () => resolve({ status: null, redirects: 0 });
+        if (signal.aborted) return onAbort();
+        signal.addEventListener('abort', onAbort);
+        result.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+export async function checkExternalLink(api: APIRequestContext, url: string, signal?: AbortSignal): Promise<LinkCheckResult> {
+    for (;;) {
+        const cached = cache.get(url);
+        const entry = cached && cached.expiresAt > Date.now() ? cached : startCheck(api, url, signal);
+        const result = await abortable(entry.result, signal);
+        if (!isCancelled(result) || signal?.aborted) return result;
+        // Another scan started this check and was cancelled, check again on this scan's behalf
+        if (cache.get(url) === entry) cache.delete(url);
+    }
+}
+
+// Status codes that say more about bot protection than about the link
+function isInconclusive(status: number): boolean {
+    return status === 401 || status === 403 || status === 429 || status === 999;
+}
+
+function describe(link: ExternalLink): string {
+    return link.text ? `The link "${link.text}" to ${link.url}` : `The link to ${link.url}`;
+}
+
+function linkIssue(link: ExternalLink, result: LinkCheckResult): Issue | null {
+    const base = { affectedUrl: link.referrer };
+
+    if (result.error === 'dns') {
+        return { ...base, category: 'Errors & Reliability', severity: 'Major', title: 'External Link Domain Not Found', description: `${describe(link)} points at a domain that does not resolve.` };
+    }
+    if (result.error === 'timeout') {
+        return { ...base, category: 'Errors & Reliability', severity: 'Minor', title: 'External Link Timed Out', description: `${describe(link)} got ${result.reason}.` };
+    }
+    if (result.error) {
+        return { ...base, category: 'Errors & Reliability', severity: 'Minor', title: 'External Link Unreachable', description: `${describe(link)} failed: ${result.reason}.` };
+    }
+    if (result.status === null || isInconclusive(result.status)) return null;
+
+    if (result.status >= 500) {
+        return { ...base, category: 'Errors & Reliability', severity: 'Minor', title: 'External Link Server Error', description: `${describe(link)} returned status ${result.status}.` };
+    }
+    if (result.status >= 400) {
+        return { ...base, category: 'Errors & Reliability', severity: 'Major', title: 'Broken External Link', description: `${describe(link)} returned status ${result.status}.` };
+    }
+    if (result.redirects > LONG_REDIRECT_CHAIN) {
+        return { ...base, category: 'Best Practices', severity: 'Suggestion', title: 'Long External Redirect Chain', description: `${describe(link)} goes through ${result.redirects} redirects, link to the final address instead.` };
+    }
+    return null;
+}
+
+// Checks every distinct URL once, then reports each problem on every page that links to it.
+// Links to one host are spaced a second apart, so onProgress keeps a long check from looking stuck.
+export async function externalLinkIssues(
+    api: APIRequestContext,
+    links: ExternalLink[],
+    signal?: AbortSignal,
+    onProgress?: (checked: number, total: number) => void
+): Promise<Issue[]> {
+    const urls = Array.from(new Set(links.map(link => link.url))).slice(0, MAX_EXTERNAL_LINKS);
+    const results = new Map<string, LinkCheckResult>();
+
+    let next = 0;
+    const worker = async () => {
+        while (next < urls.length && !signal?.aborted) {
+            const url = urls[next++];
+            results.set(url, await checkExternalLink(api, url, signal));
+            if (results.size % PROGRESS_EVERY === 0 || results.size === urls.length) {
+                onProgress?.(results.size, urls.length);
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(CONCURRENCY, urls.length) }, worker));
+
+    const issues: Issue[] = [];
+    for (const link of links) {
+        const result = results.get(link.url);
+        const issue = result && linkIssue(link, result);
+        if (issue) issues.push(issue);
+    }
+    return issues;
+}
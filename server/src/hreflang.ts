@@ -0,0 +1,191 @@
+import type { Page, Response } from 'playwright';
+import type { Issue } from './scorer';
+import type { StatusLookup } from './duplicateContent';
+import { comparableUrl } from './crawlScope';
+
+export interface HreflangAlternate {
+    hreflang: string;
+    href: string;
+}
+
+export interface HreflangPage {
+    url: string;
+    status: number | null;
+    // <html lang>, empty when unset
+    lang: string;
+    alternates: HreflangAlternate[];
+}
+
+// Alternates outside the crawl get a status check, up to this many
+const ALTERNATE_CHECK_LIMIT = 50;
+
+// language[-Script][-REGION], hreflang only takes ISO 639-1 languages and ISO 3166-1 alpha-2 regions
+const CODE_PATTERN = /^([a-z]{2})(?:-([a-z]{4}))?(?:-([a-z]{2}))?$/i;
+
+// Codes people reach for that ICU knows as aliases or groupings but search engines reject
+const REJECTED_REGIONS: Record<string, string> = {
+    UK: 'use GB for the United Kingdom',
+    EU: 'regions must be single countries',
+    UN: 'regions must be single countries',
+    ZZ: 'ZZ is the unknown region'
+};
+
+const languageNames = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' });
+const regionNames = new Intl.DisplayNames(['en'], { type: 'region', fallback: 'none' });
+
+// Returns why a code is invalid, undefined when it is fine
+function invalidCodeReason(code: string): string | undefined {
+    if (code.toLowerCase() === 'x-default') return undefined;
+    const match = code.match(CODE_PATTERN);
+    // fil or yue are real languages, but search engines only read the two-letter codes
+    const longLanguage = code.match(/^([a-z]{3})(?:-|$)/i);
+    if (!match && longLanguage) return `${longLanguage[1]} is not an ISO 639-1 language code, hreflang takes two-letter languages only`;
+    if (!match) return 'it is not of the form language or language-REGION';
+    const [, language, , region] = match;
+    if (!languageNames.of(language.toLowerCase())) return `${language} is not an ISO 639-1 language code`;
+    if (region) {
+        const upper = region.toUpperCase();
+        if (REJECTED_REGIONS[upper]) return `${upper} is not an ISO 3166-1 region code, ${REJECTED_REGIONS[upper]}`;
+        if (!regionNames.of(upper)) return `${upper} is not an ISO 3166-1 region code`;
+    }
+    return undefined;
+}
+
+// Link: <https://example.com/de/>; rel="alternate"; hreflang="de", <...>; ...
+function parseLinkHeader(header: string): HreflangAlternate[] {
+    return header.split(/,\s*(?=<)/).flatMap(entry => {
+        const target = entry.match(/<([^>]*)>/)?.[1];
+        const params = Object.fromEntries(entry.split(';').slice(1).map(param => {
+            const [key, ...value] = param.split('=');
+            return [key.trim().toLowerCase(), value.join('=').trim().replace(/^"|"$/g, '')];
+        }));
+        const rels = (params.rel || '').toLowerCase().split(/\s+/);
+        return target && params.hreflang && rels.includes('alternate')
+            ? [{ hreflang: params.hreflang, href: target }]
+            : [];
+    });
+}
+
+export async function collectHreflang(page: Page, response: Response | null, url: string): Promise<HreflangPage> {
+    const fromHtml = await page.evaluate(() => ({
+        lang: document.documentElement.getAttribute('lang') || '',
+        alternates: Array.from(document.querySelectorAll('link[rel~="alternate"][hreflang]')).map(link => ({
+            hreflang: link.getAttribute('hreflang') || '',
+            href: (link as HTMLLinkElement).href
+        }))
+    }));
+    const header = response ? await response.headerValue('link') : null;
+    const fromHeader = header ? parseLinkHeader(header) : [];
+
+    return {
+        url,
+        status: response ? response.status() : null,
+        lang: fromHtml.lang.trim(),
+        alternates: [
+            ...fromHtml.alternates,
+            ...fromHeader.map(alternate => {
+                try {
+                    return { ...alternate, href: new URL(alternate.href, url).toString() };
+                } catch {
+                    return alternate;
+                }
+            })
+        ]
+    };
+}
+
+function primaryLanguage(code: string): string {
+    return code.split('-')[0].toLowerCase();
+}
+
+export async function hreflangIssues(pages: HreflangPage[], statusOf: StatusLookup): Promise<Issue[]> {
+    const crawled = new Map(pages.map(page => [comparableUrl(page.url), page]));
+    const outside = new Map<string, number | null>();
+    const issues: Issue[] = [];
+
+    const statusFor = async (href: string): Promise<number | null | undefined> => {
+        const target = comparableUrl(href);
+        const page = crawled.get(target);
+        if (page) return page.status;
+        if (!outside.has(target)) {
+            if (outside.size >= ALTERNATE_CHECK_LIMIT) return undefined;
+            outside.set(target, await statusOf(href));
+        }
+        return outside.get(target);
+    };
+
+    for (const page of pages) {
+        if (page.alternates.length === 0 || page.status !== 200) continue;
+        const self = comparableUrl(page.url);
+        // Sites often declare the same alternates in both the markup and the Link header
+        const alternates = Array.from(new Map(page.alternates.map(alternate => [`${alternate.hreflang.toLowerCase()} ${comparableUrl(alternate.href)}`, alternate])).values());
+
+        for (const code of Array.from(new Set(page.alternates.map(alternate => alternate.hreflang)))) {
+            const reason = invalidCodeReason(code);
+            if (reason) {
+                issues.push({
+                    category: 'SEO',
+                    severity: 'Major',
+                    title: 'Invalid hreflang Code',
+                    description: `hreflang="${code}" is ignored by search engines: ${reason}.`,
+                    affectedUrl: page.url
+                });
+            }
+        }
+
+        if (!page.alternates.some(alternate => alternate.hreflang.toLowerCase() === 'x-default')) {
+            issues.push({
+                category: 'SEO',
+                severity: 'Minor',
+                title: 'Missing x-default hreflang',
+                description: 'The page declares language alternates but no x-default, so visitors whose language is not listed get no fallback.',
+                affectedUrl: page.url
+            });
+        }
+
+        for (const alternate of alternates) {
+            const target = comparableUrl(alternate.href);
+            if (target === self) continue;
+
+            const status = await statusFor(alternate.href);
+            if (status === undefined) continue;
+            if (status !== 200) {
+                issues.push({
+                    category: 'SEO',
+                    severity: 'Major',
+                    title: 'hreflang Points to Non-200 URL',
+                    description: status === null
+                        ? `The ${alternate.hreflang} alternate ${alternate.href} could not be fetched.`
+                        : `The ${alternate.hreflang} alternate ${alternate.href} returned status ${status}, search engines only follow alternates that answer 200.`,
+                    affectedUrl: page.url
+                });
+                continue;
+            }
+
+            // Return links can only be verified for alternates the crawl visited
+            const other = crawled.get(target);
+            if (other && !other.alternates.some(back => comparableUrl(back.href) === self)) {
+                issues.push({
+                    category: 'SEO',
+                    severity: 'Major',
+                    title: 'Missing hreflang Return Link',
+                    description: `The ${alternate.hreflang} alternate ${alternate.href} does not link back to this page, search engines ignore one-sided hreflang.`,
+                    affectedUrl: page.url
+                });
+            }
+        }
+
+        // The entry pointing at the page itself says which language it claims to be
+        const declared = page.alternates.find(alternate => comparableUrl(alternate.href) === self && alternate.hreflang.toLowerCase() !== 'x-default');
+        if (declared && page.lang && !invalidCodeReason(declared.hreflang) && primaryLanguage(page.lang) !== primaryLanguage(declared.hreflang)) {
+            issues.push({
+                category: 'SEO',
+                severity: 'Minor',
+                title: 'hreflang and html lang Disagree',
+                description: `The page is declared as hreflang="${declared.hreflang}" but its <html lang> is "${page.lang}".`,
+                affectedUrl: page.url
+            });
+        }
+    }
+    return issues;
+}
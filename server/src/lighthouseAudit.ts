@@ -0,0 +1,119 @@
+import net from 'net';
+import lighthouse from 'lighthouse';
+import { chromium, Browser } from 'playwright';
+import { AuthContext, newAuthorizedContext } from './auth';
+import type { Issue, LighthouseScores } from './scorer';
+
+// The axe pass already reports accessibility findings, Lighthouse only contributes the score there
+const CATEGORY_MAP: Record<string, { category: Issue['category']; key: keyof LighthouseScores; scoreOnly?: boolean }> = {
+    performance: { category: 'Performance', key: 'performance' },
+    accessibility: { category: 'Accessibility', key: 'accessibility', scoreOnly: true },
+    seo: { category: 'SEO', key: 'seo' },
+    'best-practices': { category: 'Best Practices', key: 'bestPractices' }
+};
+
+// Audits at or above this score count as passed, matching Lighthouse's own green threshold
+const PASS_SCORE = 0.9;
+
+export interface LighthouseBrowser {
+    port: number;
+    browser: Browser;
+    close(): Promise<void>;
+}
+
+export interface LighthousePageResult {
+    scores: LighthouseScores;
+    issues: Issue[];
+}
+
+function freePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = net.createServer();
+        server.unref();
+        server.on('error', reject);
+        server.listen(0, () => {
+            const { port } = server.address() as net.AddressInfo;
+            server.close(() => resolve(port));
+        });
+    });
+}
+
+// Lighthouse drives Chromium over the devtools port, so it gets a browser of its own
+export async function launchLighthouseBrowser(): Promise<LighthouseBrowser> {
+    const port = await freePort();
+    const browser: Browser = await chromium.launch({
+        headless: true,
+        args: [
+            `--remote-debugging-port=${port}`,
+            '--no-sandbox',
+            '--disable-setuid-sandbox',
+            '--disable-dev-shm-usage',
+            '--disable-gpu'
+        ]
+    });
+    return { port, browser, close: () => browser.close() };
+}
+
+function severityFor(score: number): Issue['severity'] {
+    return score < 0.5 ? 'Major' : 'Minor';
+}
+
+// Chromium no longer opens tabs through /json/new and Playwright starts without a window, so Lighthouse
+// would find nothing to attach to. It reuses the first open tab instead, which is opened here in a
+// context carrying the scan's credentials. Runs must not overlap, each one takes the first tab.
+export async function runLighthouse(lighthouseBrowser: LighthouseBrowser, url: string, auth?: AuthContext): Promise<LighthousePageResult> {
+    const context = auth ? await newAuthorizedContext(lighthouseBrowser.browser, auth) : await lighthouseBrowser.browser.newContext();
+    let result;
+    try {
+        await context.newPage();
+        result = await lighthouse(url, {
+            port: lighthouseBrowser.port,
+            output: 'json',
+            logLevel: 'error',
+            onlyCategories: Object.keys(CATEGORY_MAP),
+            // Clearing storage would sign the tab out
+            disableStorageReset: true
+        });
+    } finally {
+        await context.close().catch(() => { });
+    }
+    if (!result) {
+        throw new Error('Lighthouse returned no result');
+    }
+
+    const { categories, audits } = result.lhr;
+    const scores: LighthouseScores = {};
+    const issues: Issue[] = [];
+    const reported = new Set<string>();
+
+    for (const [id, mapping] of Object.entries(CATEGORY_MAP)) {
+        const category = categories[id];
+        if (!category) continue;
+        if (category.score !== null) {
+            scores[mapping.key] = Math.round(category.score * 100);
+        }
+        if (mapping.scoreOnly) continue;
+
+        for (const ref of category.auditRefs) {
+            const audit = audits[ref.id];
+            // Zero-weight audits are diagnostics, and some audits are shared between categories
+            if (!audit || ref.weight === 0 || reported.has(audit.id)) continue;
+            if (audit.scoreDisplayMode !== 'numeric' && audit.scoreDisplayMode !== 'binary') continue;
+            if (audit.score === null || audit.score >= PASS_SCORE) continue;
+
+            reported.add(audit.id);
+            // Lighthouse descriptions end with a markdown "[Learn more](...)" link
+            const description = audit.description.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '$1: $2');
+            issues.push({
+                category: mapping.category,
+                severity: severityFor(audit.score),
+                title: audit.title,
+                description: audit.displayValue ? `${audit.displayValue}. ${description}` : description,
+                affectedUrl: url,
+                ruleId: `lighthouse/${audit.id}`
+            });
+        }
+    }
+
+    return { scores, issues };
+}
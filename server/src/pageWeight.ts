@@ -0,0 +1,227 @@
+import type { Page, Request } from 'playwright';
+import { getDomain } from 'tldts';
+import type { Issue } from './scorer';
+
+export type ResourceKind = 'document' | 'script' | 'stylesheet' | 'image' | 'font' | 'media' | 'other';
+
+export interface ResourceTotals {
+    requests: number;
+    bytes: number;
+}
+
+export interface ResourceEntry {
+    url: string;
+    kind: ResourceKind;
+    status: number;
+    // Bytes over the wire, response headers plus the encoded body
+    transferSize: number;
+    // Milliseconds from sending the request to the last byte, -1 when the browser reported no timing
+    duration: number;
+    thirdParty: boolean;
+}
+
+export interface ResourceBreakdown {
+    requests: number;
+    bytes: number;
+    byKind: Record<ResourceKind, ResourceTotals>;
+    firstParty: ResourceTotals;
+    thirdParty: ResourceTotals;
+    // Heaviest responses first, where to look when a budget is exceeded
+    largest: ResourceEntry[];
+}
+
+export const BUDGET_NAMES = ['total', 'js', 'css', 'images', 'fonts', 'media', 'thirdParty', 'requests'] as const;
+export type BudgetName = typeof BUDGET_NAMES[number];
+
+// Limits per page in bytes, except requests which is a count
+export type PageBudgets = Partial<Record<BudgetName, number>>;
+
+export interface ResourceRecorder {
+    // Stops recording and sums up everything the page loaded until then
+    finish(): Promise<ResourceBreakdown>;
+}
+
+const LARGEST_COUNT = 10;
+
+// Playwright resource types folded into the groups a budget is set for
+const KIND_OF: Record<string, ResourceKind> = {
+    document: 'document',
+    script: 'script',
+    stylesheet: 'stylesheet',
+    image: 'image',
+    font: 'font',
+    media: 'media'
+};
+
+const BUDGET_KINDS: Partial<Record<BudgetName, ResourceKind>> = {
+    js: 'script',
+    css: 'stylesheet',
+    images: 'image',
+    fonts: 'font',
+    media: 'media'
+};
+
+const BUDGET_LABELS: Record<Exclude<BudgetName, 'requests'>, string> = {
+    total: 'Total page weight',
+    js: 'JavaScript',
+    css: 'CSS',
+    images: 'Images',
+    fonts: 'Fonts',
+    media: 'Media',
+    thirdParty: 'Third-party resources'
+};
+
+const UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 * 1024 };
+
+function emptyTotals(): ResourceTotals {
+    return { requests: 0, bytes: 0 };
+}
+
+// Registrable domain from the public suffix list, so cdn.orf.at belongs to orf.at and a.example.co.uk to
+// example.co.uk. Private suffixes count too, two github.io sites are not one party. IP addresses and localhost
+// have none and only match themselves.
+function siteOf(hostname: string): string {
+    return getDomain(hostname, { allowPrivateDomains: true }) ?? hostname.toLowerCase();
+}
+
+export function formatBytes(bytes: number): string {
+    if (bytes >= UNITS.mb) return `${(bytes / UNITS.mb).toFixed(1)} MB`;
+    return `${Math.round(bytes / UNITS.kb)} KB`;
+}
+
+// Numbers are kilobytes, strings may carry a unit: 400KB, 2MB, 1.5 MB
+function parseSize(name: string, value: unknown): number {
+    const text = typeof value === 'number' || typeof value === 'string' ? String(value).trim().toLowerCase() : '';
+    const match = text.match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb)?$/);
+    if (!match || Number(match[1]) <= 0) {
+        throw new Error(`budgets.${name} must be a size such as 400KB or 2MB`);
+    }
+    return Math.round(Number(match[1]) * UNITS[match[2] || 'kb']);
+}
+
+export function parseBudgets(raw: unknown): PageBudgets | undefined {
+    if (raw === undefined || raw === null) return undefined;
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error('budgets must be an object');
+    }
+    const budgets: PageBudgets = {};
+
+    for (const [name, value] of Object.entries(raw as Record<string, unknown>)) {
+        if (value === undefined || value === null || value === '') continue;
+        if (!(BUDGET_NAMES as readonly string[]).includes(name)) {
+            throw new Error(`Unknown budget "${name}", expected one of ${BUDGET_NAMES.join(', ')}`);
+        }
+        if (name === 'requests') {
+            const count = Number(value);
+            if (!Number.isInteger(count) || count < 1) {
+                throw new Error('budgets.requests must be a positive whole number');
+            }
+            budgets.requests = count;
+        } else {
+            budgets[name as BudgetName] = parseSize(name, value);
+        }
+    }
+
+    return Object.keys(budgets).length > 0 ? budgets : undefined;
+}
+
+async function resourceEntry(request: Request, site: string): Promise<ResourceEntry | undefined> {
+    // data: and blob: URLs never touch the network
+    if (!/^https?:/i.test(request.url())) return undefined;
+    try {
+        const response = await request.response();
+        if (!response) return undefined;
+        const sizes = await request.sizes();
+        return {
+            url: request.url(),
+            kind: KIND_OF[request.resourceType()] || 'other',
+            status: response.status(),
+            transferSize: Math.max(0, sizes.responseHeadersSize) + Math.max(0, sizes.responseBodySize),
+            duration: Math.round(request.timing().responseEnd),
+            thirdParty: siteOf(new URL(request.url()).hostname) !== site
+        };
+    } catch {
+        // The page was closed before the sizes came in
+        return undefined;
+    }
+}
+
+function summarize(entries: ResourceEntry[]): ResourceBreakdown {
+    const byKind = Object.fromEntries(
+        ['document', 'script', 'stylesheet', 'image', 'font', 'media', 'other'].map(kind => [kind, emptyTotals()])
+    ) as Record<ResourceKind, ResourceTotals>;
+    const breakdown: ResourceBreakdown = {
+        requests: 0,
+        bytes: 0,
+        byKind,
+        firstParty: emptyTotals(),
+        thirdParty: emptyTotals(),
+        largest: [...entries].sort((a, b) => b.transferSize - a.transferSize).slice(0, LARGEST_COUNT)
+    };
+
+    for (const entry of entries) {
+        for (const totals of [breakdown, byKind[entry.kind], entry.thirdParty ? breakdown.thirdParty : breakdown.firstParty]) {
+            totals.requests++;
+            totals.bytes += entry.transferSize;
+        }
+    }
+    return breakdown;
+}
+
+// Starts listening before the page is loaded. Every page of a scan shares one browser context, so the
+// HTTP cache is turned off for this page, otherwise shared assets would only weigh on the first page.
+export async function recordResources(page: Page, pageUrl: string): Promise<ResourceRecorder> {
+    const site = siteOf(new URL(pageUrl).hostname);
+    const pending: Promise<ResourceEntry | undefined>[] = [];
+    const onFinished = (request: Request) => {
+        pending.push(resourceEntry(request, site));
+    };
+    page.on('requestfinished', onFinished);
+
+    try {
+        const cdp = await page.context().newCDPSession(page);
+        await cdp.send('Network.enable');
+        await cdp.send('Network.setCacheDisabled', { cacheDisabled: true });
+    } catch (e) {
+        console.error(`Could not disable the cache for ${pageUrl}, page weights may be too low:`, e);
+    }
+
+    return {
+        async finish() {
+            page.off('requestfinished', onFinished);
+            const entries = await Promise.all(pending);
+            return summarize(entries.filter((entry): entry is ResourceEntry => entry !== undefined));
+        }
+    };
+}
+
+function measured(breakdown: ResourceBreakdown, name: BudgetName): number {
+    if (name === 'total') return breakdown.bytes;
+    if (name === 'requests') return breakdown.requests;
+    if (name === 'thirdParty') return breakdown.thirdParty.bytes;
+    return breakdown.byKind[BUDGET_KINDS[name]!].bytes;
+}
+
+export function budgetIssues(breakdown: ResourceBreakdown, budgets: PageBudgets | undefined, url: string): Issue[] {
+    if (!budgets) return [];
+    const issues: Issue[] = [];
+
+    for (const name of BUDGET_NAMES) {
+        const limit = budgets[name];
+        if (limit === undefined) continue;
+        const actual = measured(breakdown, name);
+        if (actual <= limit) continue;
+
+        issues.push({
+            category: 'Performance',
+            // Half again over the budget is no longer a rounding matter
+            severity: actual > limit * 1.5 ? 'Major' : 'Minor',
+            title: name === 'requests' ? 'Request Budget Exceeded' : 'Page Weight Budget Exceeded',
+            description: name === 'requests'
+                ? `The page made ${actual} requests, the budget allows ${limit}.`
+                : `${BUDGET_LABELS[name]} is ${formatBytes(actual)}, over the ${formatBytes(limit)} budget.`,
+            affectedUrl: url
+        });
+    }
+    return issues;
+}
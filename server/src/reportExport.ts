@@ -0,0 +1,219 @@
+import { chromium } from 'playwright';
+import { Finding, groupIssues, Issue, ScoreReport, TriageStatus } from './scorer';
+import { hostOf } from './scanStore';
+
+export interface ReportSubject {
+    url: string;
+    timestamp: number;
+}
+
+const BRAND = 'WebAudit.Ai';
+
+// Same order the dashboard groups findings in
+const CATEGORY_ORDER: Issue['category'][] = [
+    'Performance',
+    'Accessibility',
+    'SEO',
+    'Responsiveness & Layout',
+    'Errors & Reliability',
+    'Security',
+    'Best Practices'
+];
+
+const SEVERITY_ORDER: Issue['severity'][] = ['Critical', 'Major', 'Minor', 'Suggestion'];
+
+const TRIAGE_LABELS: Record<TriageStatus, string> = {
+    acknowledged: 'Acknowledged',
+    wont_fix: "Won't fix",
+    false_positive: 'False positive',
+    ignored: 'Ignored by rule'
+};
+
+// A site-wide finding would otherwise list every page of the crawl
+const MAX_LISTED_URLS = 10;
+
+function escapeHtml(value: unknown): string {
+    return String(value)
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function scoreClass(score: number): string {
+    if (score < 50) return 'bad';
+    if (score < 80) return 'ok';
+    return 'good';
+}
+
+export function reportFileName(subject: ReportSubject, extension: string): string {
+    const host = hostOf(subject.url);
+    const date = new Date(subject.timestamp).toISOString().slice(0, 10);
+    return `website-check-${host.replace(/[^\w.-]/g, '_')}-${date}.${extension}`;
+}
+
+function renderFinding(finding: Finding): string {
+    const wcag = finding.wcag?.length ? `<div class="meta">WCAG ${finding.wcag.map(escapeHtml).join(', ')}</div>` : '';
+    const triage = finding.triage
+        ? `<div class="meta">${escapeHtml(TRIAGE_LABELS[finding.triage.status])}${finding.triage.note ? `: ${escapeHtml(finding.triage.note)}` : ''}, not scored</div>`
+        : '';
+    const hidden = finding.affectedUrls.length - MAX_LISTED_URLS;
+    const urls = finding.affectedUrls.slice(0, MAX_LISTED_URLS).map(url => `<div class="meta">${escapeHtml(url)}</div>`).join('');
+    return `
+        <div class="issue">
+            <span class="badge ${finding.severity.toLowerCase()}">${escapeHtml(finding.severity)}</span>
+            <div>
+                <div class="issue-title">${escapeHtml(finding.title)}${finding.affectedUrls.length > 1 ? ` <span class="count">${finding.affectedUrls.length} pages</span>` : ''}</div>
+                <div class="issue-description">${escapeHtml(finding.description)}</div>
+                ${urls}
+                ${hidden > 0 ? `<div class="meta">and ${hidden} more page${hidden === 1 ? '' : 's'}</div>` : ''}
+                ${wcag}
+                ${triage}
+            </div>
+        </div>`;
+}
+
+// Plain markup with inline styles and no scripts or external assets, so the file opens anywhere
+export function renderReportHtml(subject: ReportSubject, report: ScoreReport): string {
+    const scannedAt = new Date(subject.timestamp).toUTCString();
+
+    const categoryCards = Object.entries(report.categories).map(([name, score]) => `
+        <div class="card">
+            <div class="card-title">${escapeHtml(name)}</div>
+            <div class="card-score ${scoreClass(score)}">${score}</div>
+            <div class="bar"><div class="bar-fill ${scoreClass(score)}" style="width: ${score}%"></div></div>
+        </div>`).join('');
+
+    const pageRows = [...report.pages].sort((a, b) => a.score - b.score).map(page => `
+        <tr>
+            <td class="url">${escapeHtml(page.url)}</td>
+            <td class="${scoreClass(page.score)}">${page.score}</td>
+            <td>${page.categoryScores.Performance}</td>
+            <td>${page.categoryScores.Accessibility}</td>
+            <td>${page.categoryScores.SEO}</td>
+            <td>${page.categoryScores['Errors & Reliability']}</td>
+            <td>${page.issues.length}</td>
+        </tr>`).join('');
+
+    // Reports from before grouping only carry the per-page issues
+    const allFindings = report.findings ?? groupIssues(report.details);
+    const findings = CATEGORY_ORDER.map(category => {
+        const grouped = allFindings
+            .filter(finding => finding.category === category)
+            .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+        if (grouped.length === 0) return '';
+        return `
+        <section class="category-group">
+            <h3>${escapeHtml(category)} <span class="count">${grouped.length}</span></h3>
+            ${grouped.map(renderFinding).join('')}
+        </section>`;
+    }).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(`${BRAND} report for ${subject.url}`)}</title>
+<style>
+    * { box-sizing: border-box; }
+    body { margin: 0; font-family: 'Inter', system-ui, -apple-system, sans-serif; color: #0f172a; background: #fff; font-size: 14px; }
+    .report { max-width: 960px; margin: 0 auto; padding: 2rem; }
+    header { display: flex; justify-content: space-between; align-items: flex-end; border-bottom: 3px solid #38bdf8; padding-bottom: 1rem; margin-bottom: 2rem; }
+    .brand { font-size: 1.5rem; font-weight: 700; }
+    .brand span { color: #0284c7; }
+    .subject { text-align: right; color: #475569; }
+    .subject .site { font-weight: 600; color: #0f172a; word-break: break-all; }
+    .overview { display: grid; grid-template-columns: 180px 1fr; gap: 2rem; align-items: center; margin-bottom: 2rem; page-break-inside: avoid; }
+    .overall { text-align: center; }
+    .overall .score { font-size: 4rem; font-weight: 700; line-height: 1; }
+    .overall .label { color: #475569; text-transform: uppercase; font-size: 0.75rem; letter-spacing: 0.05em; }
+    .cards { display: grid; grid-template-columns: repeat(3, 1fr); gap: 0.8rem; }
+    .card { border: 1px solid #e2e8f0; border-radius: 8px; padding: 0.8rem; }
+    .card-title { font-size: 0.8rem; color: #475569; }
+    .card-score { font-size: 1.6rem; font-weight: 700; }
+    .bar { height: 4px; background: #e2e8f0; border-radius: 2px; }
+    .bar-fill { height: 100%; border-radius: 2px; }
+    .good { color: #16a34a; } .bar-fill.good { background: #16a34a; }
+    .ok { color: #d97706; } .bar-fill.ok { background: #d97706; }
+    .bad { color: #dc2626; } .bar-fill.bad { background: #dc2626; }
+    h2 { font-size: 1.2rem; border-bottom: 1px solid #e2e8f0; padding-bottom: 0.4rem; margin-top: 2rem; }
+    table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
+    th, td { text-align: left; padding: 0.4rem; border-bottom: 1px solid #f1f5f9; }
+    th { color: #475569; font-weight: 600; }
+    tr { page-break-inside: avoid; }
+    td.url { word-break: break-all; }
+    .category-group h3 { font-size: 1rem; margin: 1.5rem 0 0.5rem; }
+    .count { background: #f1f5f9; border-radius: 10px; padding: 0.1rem 0.5rem; font-size: 0.75rem; color: #475569; }
+    .issue { display: grid; grid-template-columns: 90px 1fr; gap: 0.8rem; padding: 0.6rem 0; border-bottom: 1px solid #f1f5f9; page-break-inside: avoid; }
+    .issue-title { font-weight: 600; }
+    .issue-description { margin: 0.2rem 0; word-break: break-word; }
+    .meta { color: #64748b; font-size: 0.75rem; word-break: break-all; }
+    .badge { display: inline-block; font-size: 0.7rem; font-weight: 600; text-transform: uppercase; border-radius: 4px; padding: 0.15rem 0.4rem; height: fit-content; text-align: center; }
+    .badge.critical { background: #fee2e2; color: #b91c1c; }
+    .badge.major { background: #ffedd5; color: #c2410c; }
+    .badge.minor { background: #fef9c3; color: #a16207; }
+    .badge.suggestion { background: #e0f2fe; color: #0369a1; }
+    .empty { color: #475569; }
+    footer { margin-top: 3rem; color: #94a3b8; font-size: 0.75rem; text-align: center; }
+    @page { size: A4; margin: 14mm; }
+    @media print { .report { padding: 0; } }
+</style>
+</head>
+<body>
+<div class="report">
+    <header>
+        <div class="brand">WebAudit<span>.Ai</span></div>
+        <div class="subject">
+            <div class="site">${escapeHtml(subject.url)}</div>
+            <div>Scanned ${escapeHtml(scannedAt)}</div>
+            ${report.profile ? `<div>Scored with the ${escapeHtml(report.profile)} profile</div>` : ''}
+        </div>
+    </header>
+
+    <div class="overview">
+        <div class="overall">
+            <div class="score ${scoreClass(report.overallScore)}">${report.overallScore}</div>
+            <div class="label">Overall Score</div>
+        </div>
+        <div class="cards">${categoryCards}</div>
+    </div>
+
+    ${report.pages.length > 0 ? `
+    <h2>Page Breakdown (${report.pages.length})</h2>
+    <table>
+        <thead><tr><th>Page</th><th>Score</th><th>Perf.</th><th>A11y</th><th>SEO</th><th>Errors</th><th>Issues</th></tr></thead>
+        <tbody>${pageRows}</tbody>
+    </table>` : ''}
+
+    <h2>Detailed Findings (${allFindings.length})</h2>
+    ${allFindings.length > 0 ? findings : '<p class="empty">No issues found! Great job.</p>'}
+
+    <footer>Generated by ${BRAND}</footer>
+</div>
+</body>
+</html>
+`;
+}
+
+// Prints the standalone HTML through Chromium, so the PDF looks exactly like the HTML export
+export async function renderReportPdf(subject: ReportSubject, report: ScoreReport): Promise<Buffer> {
+    const browser = await chromium.launch({ headless: true, args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage'] });
+    try {
+        const page = await browser.newPage();
+        // The report is self-contained, nothing in it should reach the network
+        await page.route('**/*', route => route.abort());
+        await page.setContent(renderReportHtml(subject, report), { waitUntil: 'load' });
+        return await page.pdf({
+            format: 'A4',
+            printBackground: true,
+            preferCSSPageSize: true,
+            displayHeaderFooter: true,
+            headerTemplate: '<span></span>',
+            footerTemplate: '<div style="width: 100%; font-size: 8px; color: #94a3b8; text-align: center;"><span class="pageNumber"></span> / <span class="totalPages"></span></div>'
+        });
+    } finally {
+        await browser.close();
+    }
+}
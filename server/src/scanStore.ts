@@ -0,0 +1,278 @@
+import type { DB } from './db';
+import type { PageReport, ScoreReport } from './scorer';
+import type { CrawlConfig } from './crawlScope';
+import type { AuthMethod } from './auth';
+import type { VisualConfig } from './visualDiff';
+import type { PageBudgets } from './pageWeight';
+
+export type ScanStatus = 'IDLE' | 'QUEUED' | 'SCANNING' | 'COMPLETE' | 'FAILED' | 'CANCELLED';
+
+export interface ScanState {
+    id: string;
+    url: string;
+    devices?: string[];
+    pageLimit?: number;
+    crawl?: CrawlConfig;
+    // Which kinds of credentials were supplied, the secrets themselves are never persisted
+    authMethods?: AuthMethod[];
+    lighthouse?: boolean;
+    visual?: VisualConfig;
+    budgets?: PageBudgets;
+    // Set when the scan was started by a schedule
+    scheduleId?: string;
+    // Name of the scoring profile, the default one when unset
+    scoringProfile?: string;
+    status: ScanStatus;
+    progress: number;
+    message: string;
+    report: ScoreReport | null;
+    timestamp: number;
+    queuePosition?: number;
+    estimatedWaitTime?: number;
+}
+
+export interface ScanHistoryEntry {
+    id: string;
+    url: string;
+    timestamp: number;
+    overallScore: number;
+    categories: ScoreReport['categories'];
+    pages: Pick<PageReport, 'url' | 'score' | 'metrics'>[];
+}
+
+export interface ScanRepository {
+    create(scan: ScanState): void;
+    get(scanId: string): ScanState | undefined;
+    update(scanId: string, update: Partial<ScanState>): ScanState | undefined;
+    listByStatus(status: ScanStatus): ScanState[];
+    // Most recent completed scan of the same start URL before the given time
+    previousComplete(url: string, before: number): ScanState | undefined;
+    // Completed scans for a hostname, oldest first
+    listHistory(host: string, limit: number): ScanHistoryEntry[];
+    // Removes finished scans older than the cutoff, returns the ids that were deleted
+    purgeOlderThan(cutoff: number): string[];
+}
+
+interface ScanRow {
+    id: string;
+    url: string;
+    host: string;
+    devices: string;
+    page_limit: number;
+    crawl: string | null;
+    auth_methods: string | null;
+    lighthouse: number;
+    visual: string | null;
+    budgets: string | null;
+    schedule_id: string | null;
+    scoring_profile: string | null;
+    status: ScanStatus;
+    progress: number;
+    message: string;
+    report: string | null;
+    timestamp: number;
+    queue_position: number | null;
+    estimated_wait_time: number | null;
+}
+
+interface PageRow {
+    url: string;
+    score: number;
+    metrics: string;
+    category_scores: string;
+    issues: string;
+    lighthouse: string | null;
+    screenshots: string | null;
+    visual_diffs: string | null;
+    social_preview: string | null;
+    structured_data: string | null;
+}
+
+export function hostOf(url: string): string {
+    try {
+        return new URL(url).hostname;
+    } catch {
+        return url;
+    }
+}
+
+export class SqliteScanRepository implements ScanRepository {
+    constructor(private db: DB) { }
+
+    create(scan: ScanState) {
+        this.db.transaction(() => {
+            this.db.prepare(`
+                INSERT INTO scans (id, url, host, devices, page_limit, crawl, auth_methods, lighthouse, visual, budgets, schedule_id, scoring_profile, status, progress, message, report, timestamp, queue_position, estimated_wait_time)
+                VALUES (@id, @url, @host, @devices, @page_limit, @crawl, @auth_methods, @lighthouse, @visual, @budgets, @schedule_id, @scoring_profile, @status, @progress, @message, @report, @timestamp, @queue_position, @estimated_wait_time)
+            `).run(this.toRow(scan));
+            this.writePages(scan.id, scan.report);
+        })();
+    }
+
+    get(scanId: string): ScanState | undefined {
+        const row = this.db.prepare('SELECT * FROM scans WHERE id = ?').get(scanId) as ScanRow | undefined;
+        return row ? this.fromRow(row) : undefined;
+    }
+
+    update(scanId: string, update: Partial<ScanState>): ScanState | undefined {
+        const current = this.get(scanId);
+        if (!current) return undefined;
+
+        const next: ScanState = { ...current, ...update, id: scanId };
+        this.db.transaction(() => {
+            this.db.prepare(`
+                UPDATE scans SET url = @url, host = @host, devices = @devices, page_limit = @page_limit, crawl = @crawl, auth_methods = @auth_methods, lighthouse = @lighthouse, visual = @visual, budgets = @budgets, schedule_id = @schedule_id, scoring_profile = @scoring_profile, status = @status,
+                    progress = @progress, message = @message, report = @report, timestamp = @timestamp,
+                    queue_position = @queue_position, estimated_wait_time = @estimated_wait_time
+                WHERE id = @id
+            `).run(this.toRow(next));
+
+            // Pages only change when a report is written, skip the rewrite for progress ticks
+            if ('report' in update) {
+                this.writePages(scanId, next.report);
+            }
+        })();
+        return next;
+    }
+
+    listByStatus(status: ScanStatus): ScanState[] {
+        const rows = this.db.prepare('SELECT * FROM scans WHERE status = ? ORDER BY timestamp ASC').all(status) as ScanRow[];
+        return rows.map(row => this.fromRow(row));
+    }
+
+    previousComplete(url: string, before: number): ScanState | undefined {
+        const row = this.db.prepare(`
+            SELECT * FROM scans WHERE host = ? AND url = ? AND status = 'COMPLETE' AND timestamp < ?
+            ORDER BY timestamp DESC LIMIT 1
+        `).get(hostOf(url), url, before) as ScanRow | undefined;
+        return row ? this.fromRow(row) : undefined;
+    }
+
+    listHistory(host: string, limit: number): ScanHistoryEntry[] {
+        // Take the newest N and flip them so the result still reads oldest to newest
+        const rows = this.db.prepare(`
+            SELECT id, url, timestamp, report FROM scans
+            WHERE host = ? AND status = 'COMPLETE' AND report IS NOT NULL
+            ORDER BY timestamp DESC LIMIT ?
+        `).all(host, limit) as Pick<ScanRow, 'id' | 'url' | 'timestamp' | 'report'>[];
+
+        const pageQuery = this.db.prepare('SELECT url, score, metrics FROM scan_pages WHERE scan_id = ? ORDER BY position ASC');
+
+        return rows.reverse().map(row => {
+            const report: ScoreReport = JSON.parse(row.report!);
+            const pages = pageQuery.all(row.id) as Pick<PageRow, 'url' | 'score' | 'metrics'>[];
+            return {
+                id: row.id,
+                url: row.url,
+                timestamp: row.timestamp,
+                overallScore: report.overallScore,
+                categories: report.categories,
+                pages: pages.map(page => ({ url: page.url, score: page.score, metrics: JSON.parse(page.metrics) }))
+            };
+        });
+    }
+
+    purgeOlderThan(cutoff: number): string[] {
+        const rows = this.db.prepare(`
+            DELETE FROM scans WHERE timestamp < ? AND status NOT IN ('QUEUED', 'SCANNING') RETURNING id
+        `).all(cutoff) as { id: string }[];
+        return rows.map(row => row.id);
+    }
+
+    private writePages(scanId: string, report: ScoreReport | null) {
+        this.db.prepare('DELETE FROM scan_pages WHERE scan_id = ?').run(scanId);
+        if (!report) return;
+
+        const insert = this.db.prepare(`
+            INSERT INTO scan_pages (scan_id, position, url, score, metrics, category_scores, issues, lighthouse, screenshots, visual_diffs, social_preview, structured_data)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `);
+        report.pages.forEach((page, position) => {
+            insert.run(
+                scanId,
+                position,
+                page.url,
+                page.score,
+                JSON.stringify(page.metrics),
+                JSON.stringify(page.categoryScores),
+                JSON.stringify(page.issues),
+                page.lighthouse ? JSON.stringify(page.lighthouse) : null,
+                page.screenshots ? JSON.stringify(page.screenshots) : null,
+                page.visualDiffs ? JSON.stringify(page.visualDiffs) : null,
+                page.socialPreview ? JSON.stringify(page.socialPreview) : null,
+                page.structuredData ? JSON.stringify(page.structuredData) : null
+            );
+        });
+    }
+
+    private readPages(scanId: string): PageReport[] {
+        const rows = this.db.prepare('SELECT * FROM scan_pages WHERE scan_id = ? ORDER BY position ASC').all(scanId) as PageRow[];
+        return rows.map(row => ({
+            url: row.url,
+            score: row.score,
+            metrics: JSON.parse(row.metrics),
+            categoryScores: JSON.parse(row.category_scores),
+            issues: JSON.parse(row.issues),
+            lighthouse: row.lighthouse ? JSON.parse(row.lighthouse) : undefined,
+            screenshots: row.screenshots ? JSON.parse(row.screenshots) : undefined,
+            visualDiffs: row.visual_diffs ? JSON.parse(row.visual_diffs) : undefined,
+            socialPreview: row.social_preview ? JSON.parse(row.social_preview) : undefined,
+            structuredData: row.structured_data ? JSON.parse(row.structured_data) : undefined
+        }));
+    }
+
+    private toRow(scan: ScanState): ScanRow {
+        // Pages live in their own table, the scans row only keeps the summary
+        const report = scan.report ? { ...scan.report, pages: [] } : null;
+
+        return {
+            id: scan.id,
+            url: scan.url,
+            host: hostOf(scan.url),
+            devices: JSON.stringify(scan.devices || []),
+            page_limit: scan.pageLimit || 20,
+            crawl: scan.crawl ? JSON.stringify(scan.crawl) : null,
+            auth_methods: scan.authMethods?.length ? JSON.stringify(scan.authMethods) : null,
+            lighthouse: scan.lighthouse ? 1 : 0,
+            visual: scan.visual ? JSON.stringify(scan.visual) : null,
+            budgets: scan.budgets ? JSON.stringify(scan.budgets) : null,
+            schedule_id: scan.scheduleId ?? null,
+            scoring_profile: scan.scoringProfile ?? null,
+            status: scan.status,
+            progress: scan.progress,
+            message: scan.message,
+            report: report ? JSON.stringify(report) : null,
+            timestamp: scan.timestamp,
+            queue_position: scan.queuePosition ?? null,
+            estimated_wait_time: scan.estimatedWaitTime ?? null
+        };
+    }
+
+    private fromRow(row: ScanRow): ScanState {
+        const report: ScoreReport | null = row.report ? JSON.parse(row.report) : null;
+        if (report) {
+            report.pages = this.readPages(row.id);
+        }
+
+        return {
+            id: row.id,
+            url: row.url,
+            devices: JSON.parse(row.devices),
+            pageLimit: row.page_limit,
+            crawl: row.crawl ? JSON.parse(row.crawl) : undefined,
+            authMethods: row.auth_methods ? JSON.parse(row.auth_methods) : undefined,
+            lighthouse: row.lighthouse === 1,
+            visual: row.visual ? JSON.parse(row.visual) : undefined,
+            budgets: row.budgets ? JSON.parse(row.budgets) : undefined,
+            scheduleId: row.schedule_id ?? undefined,
+            scoringProfile: row.scoring_profile ?? undefined,
+            status: row.status,
+            progress: row.progress,
+            message: row.message,
+            report,
+            timestamp: row.timestamp,
+            queuePosition: row.queue_position ?? undefined,
+            estimatedWaitTime: row.estimated_wait_time ?? undefined
+        };
+    }
+}
@@ -1,35 +1,110 @@
+import fs from 'fs';
+import path from 'path';
 import { chromium, Page } from 'playwright';
-import { Server } from 'socket.io';
 import { crawlSite } from './crawler';
-import { calculateScore, Issue } from './scorer';
-// import lighthouse from 'lighthouse';
-// import * as chromeLauncher from 'chrome-launcher';
+import { crawlerUserAgent } from './sitemap';
+import { calculateScore, fingerprintOf, Issue, LighthouseScores, PageReport, ScoreReport, Screenshot, VisualDiff } from './scorer';
+import type { CrawlConfig } from './crawlScope';
+import { AuthConfig, createSiteRequests, newAuthorizedContext, redactSecrets, resolveAuthContext, secretValues, SiteRequests } from './auth';
+import { runAccessibilityAudit } from './accessibility';
+import { runSecurityAudit } from './securityAudit';
+import { duplicateContentIssues, pageSignals, PageSignals, StatusLookup } from './duplicateContent';
+import { collectHreflang, HreflangPage, hreflangIssues } from './hreflang';
+import { extractStructuredData, validateStructuredData } from './structuredData';
+import { auditSocialTags, createImageProbe, readSocialTags, SocialPreview } from './socialPreview';
+import { budgetIssues, PageBudgets, recordResources } from './pageWeight';
+import { launchLighthouseBrowser, LighthouseBrowser, runLighthouse } from './lighthouseAudit';
+import { screenshotFileName } from './screenshots';
+import { compareScreenshots, DEFAULT_THRESHOLD, MAX_SCREENSHOT_HEIGHT, VisualConfig } from './visualDiff';
+import type { VisualBaseline } from './baselineStore';
+import type { ScoringProfile } from './scoringProfiles';
+
+export interface ScanOptions {
+    devices?: string[];
+    pageLimit?: number;
+    crawl?: CrawlConfig;
+    auth?: AuthConfig;
+    // Adds a Lighthouse pass per page, noticeably slower
+    lighthouse?: boolean;
+    // Folder for full-page screenshots per breakpoint, none are taken when unset
+    screenshotDir?: string;
+    visual?: VisualConfig;
+    // Looks up the accepted screenshot to compare against, only consulted when screenshots are taken
+    baselineFor?: (url: string, device: string) => VisualBaseline | undefined;
+    // Weights and penalties for the scores, the default profile when unset
+    scoringProfile?: ScoringProfile;
+    // Page weight limits, violations are reported as Performance issues
+    budgets?: PageBudgets;
+    // Product token used to pick the matching robots.txt group, also appended to the browser's user agent
+    userAgent?: string;
+    signal?: AbortSignal;
+}
 
-// Mocking lighthouse for MVP speed/stability if needed, or implement partially
-// We will focus on pure Playwright for now as per plan constraints and speed.
+export class ScanCancelledError extends Error {
+    constructor() {
+        super('Scan was cancelled');
+        this.name = 'ScanCancelledError';
+    }
+}
+
+export type ProgressCallback = (message: string, progress: number) => void;
+
+// Viewports by the device ids clients send
+export const DEVICE_MAP: Record<string, { name: string; width: number; height: number }> = {
+    'small-mobile': { name: 'Small Mobile', width: 375, height: 667 },
+    'mobile': { name: 'Mobile', width: 390, height: 844 },
+    'big-mobile': { name: 'Big Mobile', width: 430, height: 932 },
+    'tablet-small': { name: 'Tablet Small', width: 768, height: 1024 },
+    'tablet-normal': { name: 'Tablet Normal', width: 1024, height: 1366 },
+    'desktop-small': { name: 'Desktop Small', width: 1280, height: 720 },
+    'desktop-medium': { name: 'Desktop Medium', width: 1366, height: 768 },
+    'desktop-normal': { name: 'Desktop Normal', width: 1920, height: 1080 }
+};
+
+export function isDeviceId(id: unknown): id is string {
+    return typeof id === 'string' && Object.prototype.hasOwnProperty.call(DEVICE_MAP, id);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
 export async function runScan(
     startUrl: string,
-    scanId: string,
-    io: Server,
-    updateState: (update: any) => void,
-    selectedDevices: string[] = [],
-    pageLimit: number = 20
-) {
-    const emitProgress = (message: string, progress: number) => {
-        io.to(scanId).emit('scan:progress', { scanId, message, progress });
-        updateState({ message, progress, status: 'SCANNING' });
+    options: ScanOptions,
+    emitProgress: ProgressCallback
+): Promise<ScoreReport> {
+    const selectedDevices = options.devices || [];
+    const pageLimit = options.pageLimit || 20;
+    const { signal } = options;
+    const throwIfCancelled = () => {
+        if (signal?.aborted) throw new ScanCancelledError();
     };
 
     emitProgress('Starting crawler...', 5);
 
+    if (options.auth?.login) {
+        emitProgress('Signing in...', 7);
+    }
+    const authContext = await resolveAuthContext(options.auth, startUrl);
+    throwIfCancelled();
+
     let scanIssues: Issue[] = [];
     const pageReports: any[] = [];
+    const signals: PageSignals[] = [];
+    const hreflangPages: HreflangPage[] = [];
 
-    // 1. Crawl
     // 1. Crawl
     emitProgress('Discovering pages...', 10);
-    const pages = await crawlSite(startUrl, 3, pageLimit);
+    const crawl = await crawlSite(startUrl, {
+        maxPages: pageLimit,
+        scope: options.crawl,
+        signal,
+        userAgent: options.userAgent,
+        auth: authContext,
+        onProgress: message => emitProgress(message, 15)
+    });
+    throwIfCancelled();
+    const pages = crawl.pages;
+    scanIssues.push(...crawl.issues);
     emitProgress(`Found ${pages.length} pages.`, 20);
 
     const browser = await chromium.launch({
@@ -41,347 +116,543 @@ export async function runScan(
             '--disable-gpu'
         ]
     });
-    const context = await browser.newContext();
-
-    // Device mapping
-    const DEVICE_MAP: Record<string, { name: string; width: number; height: number }> = {
-        'small-mobile': { name: 'Small Mobile', width: 375, height: 667 },
-        'mobile': { name: 'Mobile', width: 390, height: 844 },
-        'big-mobile': { name: 'Big Mobile', width: 430, height: 932 },
-        'tablet-small': { name: 'Tablet Small', width: 768, height: 1024 },
-        'tablet-normal': { name: 'Tablet Normal', width: 1024, height: 1366 },
-        'desktop-small': { name: 'Desktop Small', width: 1280, height: 720 },
-        'desktop-medium': { name: 'Desktop Medium', width: 1366, height: 768 },
-        'desktop-normal': { name: 'Desktop Normal', width: 1920, height: 1080 }
+    let lighthouseBrowser: LighthouseBrowser | null = null;
+    let requests: SiteRequests | null = null;
+    const onAbort = () => {
+        browser.close().catch(() => { });
+        lighthouseBrowser?.close().catch(() => { });
     };
+    signal?.addEventListener('abort', onAbort);
+
+    // Everything that runs with the browser open, so it is closed whatever goes wrong
+    try {
+        const userAgent = await crawlerUserAgent(browser, options.userAgent);
+        const context = await newAuthorizedContext(browser, authContext, { userAgent });
+        // Canonicals, alternates and preview images may point anywhere, only the site's origin gets credentials
+        requests = await createSiteRequests(authContext, userAgent);
+        const probeImage = createImageProbe(requests.for);
+
+        if (options.lighthouse) {
+            lighthouseBrowser = await launchLighthouseBrowser();
+        }
 
-    // Create breakpoints from selected devices, fallback to default if none selected
-    const BREAKPOINTS = selectedDevices.length > 0
-        ? selectedDevices.map(deviceId => DEVICE_MAP[deviceId]).filter(Boolean)
-        : [
-            { name: 'Mobile', width: 390, height: 844 },
-            { name: 'Tablet', width: 768, height: 1024 },
-            { name: 'Desktop', width: 1440, height: 900 }
-        ];
+        // Create breakpoints from selected devices, fallback to default if none selected
+        const BREAKPOINTS = selectedDevices.length > 0
+            ? selectedDevices.filter(isDeviceId).map(deviceId => ({ id: deviceId, ...DEVICE_MAP[deviceId] }))
+            : [
+                { id: 'mobile', name: 'Mobile', width: 390, height: 844 },
+                { id: 'tablet', name: 'Tablet', width: 768, height: 1024 },
+                { id: 'desktop', name: 'Desktop', width: 1440, height: 900 }
+            ];
 
-    let pagesProcessed = 0;
+        if (options.screenshotDir) {
+            fs.mkdirSync(options.screenshotDir, { recursive: true });
+        }
 
-    for (const pageObj of pages) {
-        const { url, referrer } = pageObj;
+        let pagesProcessed = 0;
 
-        emitProgress(
-            `Scanning ${url}...`,
-            20 + Math.floor((pagesProcessed / pages.length) * 70)
-        );
+        for (const pageObj of pages) {
+            const { url, referrer } = pageObj;
+            throwIfCancelled();
 
-        let pageMetrics: any = {};
+            // Pages are fetched again here, at the pace robots.txt asked of the crawler
+            if (pagesProcessed > 0 && crawl.crawlDelayMs > 0) {
+                await sleep(crawl.crawlDelayMs);
+                throwIfCancelled();
+            }
+
+            emitProgress(
+                `Scanning ${url}...`,
+                20 + Math.floor((pagesProcessed / pages.length) * 70)
+            );
+
+            let pageMetrics: any = {};
+            let lighthouseScores: LighthouseScores | undefined;
+            const screenshots: Screenshot[] = [];
+            const visualDiffs: VisualDiff[] = [];
+            let socialPreview: SocialPreview | undefined;
+            let structuredData: PageReport['structuredData'];
+
+            const page = await context.newPage();
 
-        const page = await context.newPage();
+            // ERROR LISTENERS
+            page.on('console', msg => {
+                if (msg.type() === 'error') {
+                    scanIssues.push({
+                        category: 'Errors & Reliability',
+                        severity: 'Major',
+                        title: 'Console Error',
+                        description: msg.text(),
+                        affectedUrl: url
+                    });
+                } else if (msg.type() === 'warning') {
+                    scanIssues.push({
+                        category: 'Best Practices',
+                        severity: 'Suggestion',
+                        title: 'Console Warning',
+                        description: msg.text(),
+                        affectedUrl: url
+                    });
+                }
+            });
 
-        // ERROR LISTENERS
-        page.on('console', msg => {
-            if (msg.type() === 'error') {
+            page.on('pageerror', exception => {
                 scanIssues.push({
                     category: 'Errors & Reliability',
-                    severity: 'Major',
-                    title: 'Console Error',
-                    description: msg.text(),
+                    severity: 'Critical',
+                    title: 'Uncaught Exception',
+                    description: exception.message,
                     affectedUrl: url
                 });
-            } else if (msg.type() === 'warning') {
+            });
+
+            page.on('response', response => {
+                if (response.status() >= 400) {
+                    // Ignore standard 404 for the page itself if handled elsewhere, but good to catch resources
+                    if (response.url() === url && response.status() === 404) {
+                        // Main page 404
+                        const description = referrer
+                            ? `The page returned a 404 status. Found on: ${referrer}`
+                            : 'The page returned a 404 status.';
+
+                        scanIssues.push({ category: 'Errors & Reliability', severity: 'Critical', title: 'Page Not Found', description: description, affectedUrl: url });
+                    } else if (response.status() >= 500) {
+                        scanIssues.push({ category: 'Errors & Reliability', severity: 'Major', title: 'Server Error', description: `${response.url()} returned status ${response.status()}`, affectedUrl: url });
+                    } else if (response.status() === 404) {
+                        // Resource 404
+                        scanIssues.push({ category: 'Errors & Reliability', severity: 'Minor', title: 'Broken Resource', description: `${response.url()} returned 404 Not Found on ${url}`, affectedUrl: url });
+                    }
+                }
+            });
+
+            page.on('requestfailed', request => {
+                const failedUrl = request.url();
+                // Filter out known analytics/tracking domains
+                const IGNORED_DOMAINS = [
+                    'google-analytics.com',
+                    'googletagmanager.com',
+                    'facebook.net',
+                    'connect.facebook.net',
+                    'doubleclick.net',
+                    'googleadservices.com',
+                    'hotjar.com',
+                    'segment.io',
+                    'linkedin.com',
+                    'twitter.com',
+                    't.co',
+                    'pinterest.com'
+                ];
+
+                if (IGNORED_DOMAINS.some(domain => failedUrl.includes(domain))) {
+                    return;
+                }
+
+                // Abort error corresponds to operation canceled e.g. by uBlock or browser, or navigation interrupted
+                if (request.failure()?.errorText === 'net::ERR_ABORTED') return;
+
                 scanIssues.push({
-                    category: 'Best Practices',
-                    severity: 'Suggestion',
-                    title: 'Console Warning',
-                    description: msg.text(),
+                    category: 'Errors & Reliability',
+                    severity: 'Minor',
+                    title: 'Failed Request',
+                    description: `${failedUrl} failed: ${request.failure()?.errorText}`,
                     affectedUrl: url
                 });
-            }
-        });
-
-        page.on('pageerror', exception => {
-            scanIssues.push({
-                category: 'Errors & Reliability',
-                severity: 'Critical',
-                title: 'Uncaught Exception',
-                description: exception.message,
-                affectedUrl: url
             });
-        });
-
-        page.on('response', response => {
-            if (response.status() >= 400) {
-                // Ignore standard 404 for the page itself if handled elsewhere, but good to catch resources
-                if (response.url() === url && response.status() === 404) {
-                    // Main page 404
-                    const description = referrer
-                        ? `The page returned a 404 status. Found on: ${referrer}`
-                        : 'The page returned a 404 status.';
-
-                    scanIssues.push({ category: 'Errors & Reliability', severity: 'Critical', title: 'Page Not Found', description: description, affectedUrl: url });
-                } else if (response.status() >= 500) {
-                    scanIssues.push({ category: 'Errors & Reliability', severity: 'Major', title: 'Server Error', description: `${response.url()} returned status ${response.status()}`, affectedUrl: url });
-                } else if (response.status() === 404) {
-                    // Resource 404
-                    scanIssues.push({ category: 'Errors & Reliability', severity: 'Minor', title: 'Broken Resource', description: `${response.url()} returned 404 Not Found on ${url}`, affectedUrl: url });
-                }
-            }
-        });
-
-        page.on('requestfailed', request => {
-            const failedUrl = request.url();
-            // Filter out known analytics/tracking domains
-            const IGNORED_DOMAINS = [
-                'google-analytics.com',
-                'googletagmanager.com',
-                'facebook.net',
-                'connect.facebook.net',
-                'doubleclick.net',
-                'googleadservices.com',
-                'hotjar.com',
-                'segment.io',
-                'linkedin.com',
-                'twitter.com',
-                't.co',
-                'pinterest.com'
-            ];
 
-            if (IGNORED_DOMAINS.some(domain => failedUrl.includes(domain))) {
-                return;
-            }
+            // INJECT PERFORMANCE OBSERVERS (LCP, FCP, CLS)
+            await page.addInitScript(() => {
+                (window as any).__metrics = {
+                    lcp: 0,
+                    fcp: 0,
+                    cls: 0
+                };
 
-            // Abort error corresponds to operation canceled e.g. by uBlock or browser, or navigation interrupted
-            if (request.failure()?.errorText === 'net::ERR_ABORTED') return;
+                // LCP
+                new PerformanceObserver((entryList) => {
+                    const entries = entryList.getEntries();
+                    if (entries.length > 0) {
+                        const lastEntry = entries[entries.length - 1];
+                        (window as any).__metrics.lcp = lastEntry.startTime;
+                    }
+                }).observe({ type: 'largest-contentful-paint', buffered: true });
 
-            scanIssues.push({
-                category: 'Errors & Reliability',
-                severity: 'Minor',
-                title: 'Failed Request',
-                description: `${failedUrl} failed: ${request.failure()?.errorText}`,
-                affectedUrl: url
+                // FCP
+                new PerformanceObserver((entryList) => {
+                    const entries = entryList.getEntries();
+                    if (entries.length > 0) {
+                        (window as any).__metrics.fcp = entries[0].startTime;
+                    }
+                }).observe({ type: 'paint', buffered: true });
+
+                // CLS
+                new PerformanceObserver((entryList) => {
+                    for (const entry of entryList.getEntries()) {
+                        if (!(entry as any).hadRecentInput) {
+                            (window as any).__metrics.cls += (entry as any).value;
+                        }
+                    }
+                }).observe({ type: 'layout-shift', buffered: true });
             });
-        });
-
-        // INJECT PERFORMANCE OBSERVERS (LCP, FCP, CLS)
-        await page.addInitScript(() => {
-            (window as any).__metrics = {
-                lcp: 0,
-                fcp: 0,
-                cls: 0
-            };
-
-            // LCP
-            new PerformanceObserver((entryList) => {
-                const entries = entryList.getEntries();
-                if (entries.length > 0) {
-                    const lastEntry = entries[entries.length - 1];
-                    (window as any).__metrics.lcp = lastEntry.startTime;
-                }
-            }).observe({ type: 'largest-contentful-paint', buffered: true });
 
-            // FCP
-            new PerformanceObserver((entryList) => {
-                const entries = entryList.getEntries();
-                if (entries.length > 0) {
-                    (window as any).__metrics.fcp = entries[0].startTime;
-                }
-            }).observe({ type: 'paint', buffered: true });
+            // Sizes, types and timings of every response, the listener above only looks at status codes
+            const resourceRecorder = await recordResources(page, url);
 
-            // CLS
-            new PerformanceObserver((entryList) => {
-                for (const entry of entryList.getEntries()) {
-                    if (!(entry as any).hadRecentInput) {
-                        (window as any).__metrics.cls += (entry as any).value;
-                    }
-                }
-            }).observe({ type: 'layout-shift', buffered: true });
-        });
-
-        try {
-            await page.goto(url, { waitUntil: 'networkidle' });
-
-            // RUN COMPREHENSIVE ON-PAGE EVALUATION
-            const analysis = await page.evaluate(() => {
-                const issues: any[] = [];
-                const metrics = (window as any).__metrics;
-
-                // --- PERFORMANCE ---
-                const nav = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming;
-
-                // --- ACCESSIBILITY ---
-                // Images without alt text
-                const images = Array.from(document.querySelectorAll('img'));
-                const missingAlt = images.filter(img => !img.hasAttribute('alt') || img.getAttribute('alt') === '');
-                if (missingAlt.length > 0) {
-                    issues.push({
-                        category: 'Accessibility',
-                        severity: 'Major',
-                        title: 'Images Missing Alt Text',
-                        description: `${missingAlt.length} images are missing alt text.`
-                    });
-                }
+            try {
+                const response = await page.goto(url, { waitUntil: 'networkidle' });
 
-                // Headings out of order
-                const headings = Array.from(document.querySelectorAll('h1, h2, h3, h4, h5, h6'));
-                let lastLevel = 0;
-                for (const h of headings) {
-                    const level = parseInt(h.tagName.substring(1));
-                    if (level > lastLevel + 1 && lastLevel !== 0) {
-                        issues.push({
-                            category: 'Accessibility',
-                            severity: 'Minor',
-                            title: 'Skipped Heading Level',
-                            description: `Heading structure jumps from H${lastLevel} to H${level}.`
-                        });
-                        break; // Report once per page
+                // RUN COMPREHENSIVE ON-PAGE EVALUATION
+                const analysis = await page.evaluate(() => {
+                    const issues: any[] = [];
+                    const metrics = (window as any).__metrics;
+
+                    // --- PERFORMANCE ---
+                    const nav = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming;
+
+                    // --- SEO ---
+                    if (!document.title) {
+                        issues.push({ category: 'SEO', severity: 'Minor', title: 'Missing Title', description: 'Page has no title tag.' });
+                    }
+                    const metaDesc = document.querySelector('meta[name="description"]');
+                    if (!metaDesc) {
+                        issues.push({ category: 'SEO', severity: 'Suggestion', title: 'Missing Meta Description', description: 'Page should have a meta description.' });
+                    }
+                    const h1s = document.querySelectorAll('h1');
+                    if (h1s.length === 0) {
+                        issues.push({ category: 'SEO', severity: 'Major', title: 'Missing H1', description: 'Page should have exactly one H1 tag.' });
+                    } else if (h1s.length > 1) {
+                        issues.push({ category: 'SEO', severity: 'Minor', title: 'Multiple H1 Tags', description: 'Page should have exactly one H1 tag.' });
+                    }
+                    const canonical = document.querySelector('link[rel="canonical"]');
+                    if (!canonical) {
+                        issues.push({ category: 'SEO', severity: 'Suggestion', title: 'Missing Canonical Tag', description: 'Canonical tag helps prevent duplicate content issues.' });
                     }
-                    lastLevel = level;
-                }
 
-                // Invalid ARIA (basic check)
-                const elements = document.querySelectorAll('*');
-                for (const el of elements) {
-                    const attrs = el.attributes;
-                    for (let i = 0; i < attrs.length; i++) {
-                        const name = attrs[i].name;
-                        if (name.startsWith('aria-') && !name.match(/^aria-[a-z]+$/)) {
-                            // Very basic regex check, could be improved
+                    // --- BEST PRACTICES ---
+                    // Mixed Content (if page is HTTPS, check for HTTP resources)
+                    if (window.location.protocol === 'https:') {
+                        const insecureResources = Array.from(document.querySelectorAll('img[src^="http:"], script[src^="http:"], link[href^="http:"]'));
+                        if (insecureResources.length > 0) {
+                            issues.push({ category: 'Best Practices', severity: 'Major', title: 'Mixed Content', description: `${insecureResources.length} resources are loaded over insecure HTTP.` });
                         }
                     }
-                }
 
-                // --- SEO ---
-                if (!document.title) {
-                    issues.push({ category: 'SEO', severity: 'Minor', title: 'Missing Title', description: 'Page has no title tag.' });
+                    // Unsafe links to cross-origin destinations
+                    const unsafeLinks = Array.from(document.querySelectorAll('a[target="_blank"]:not([rel~="noopener"]):not([rel~="noreferrer"])'));
+                    if (unsafeLinks.length > 0) {
+                        issues.push({ category: 'Best Practices', severity: 'Minor', title: 'Unsafe Cross-Origin Links', description: `${unsafeLinks.length} links use target="_blank" without rel="noopener noreferrer".` });
+                    }
+
+                    // --- RESPONSIVENESS (Static) ---
+                    const viewport = document.querySelector('meta[name="viewport"]');
+                    if (!viewport) {
+                        issues.push({ category: 'Responsiveness & Layout', severity: 'Major', title: 'Missing Viewport Meta Tag', description: 'Page is missing viewport meta tag for mobile responsiveness.' });
+                    }
+
+                    return {
+                        metrics: {
+                            lcp: metrics.lcp,
+                            fcp: metrics.fcp,
+                            cls: metrics.cls,
+                            duration: nav?.duration,
+                            domComplete: nav?.domComplete
+                        },
+                        onPageIssues: issues,
+                        // Compared across pages once the whole site is scanned
+                        meta: {
+                            title: document.title,
+                            description: metaDesc?.getAttribute('content') || '',
+                            h1: h1s[0]?.textContent || '',
+                            canonical: (canonical as HTMLLinkElement | null)?.href || '',
+                            text: document.body?.innerText || ''
+                        }
+                    };
+                });
+
+                // ADD EVALUATED ISSUES
+                analysis.onPageIssues.forEach(i => scanIssues.push({ ...i, affectedUrl: url }));
+                signals.push(pageSignals(url, response ? response.status() : null, analysis.meta));
+
+                // PAGE WEIGHT, taken before the breakpoints resize the page and load other image sources
+                const resources = await resourceRecorder.finish();
+                scanIssues.push(...budgetIssues(resources, options.budgets, url));
+
+                // ACCESSIBILITY (axe-core rule engine)
+                try {
+                    scanIssues.push(...await runAccessibilityAudit(page, url));
+                } catch (e) {
+                    console.error(`Accessibility audit failed for ${url}:`, e);
                 }
-                const metaDesc = document.querySelector('meta[name="description"]');
-                if (!metaDesc) {
-                    issues.push({ category: 'SEO', severity: 'Suggestion', title: 'Missing Meta Description', description: 'Page should have a meta description.' });
+
+                // SECURITY HEADERS AND COOKIES
+                if (response) {
+                    try {
+                        scanIssues.push(...await runSecurityAudit(response, url));
+                    } catch (e) {
+                        console.error(`Security audit failed for ${url}:`, e);
+                    }
                 }
-                const h1s = document.querySelectorAll('h1');
-                if (h1s.length === 0) {
-                    issues.push({ category: 'SEO', severity: 'Major', title: 'Missing H1', description: 'Page should have exactly one H1 tag.' });
-                } else if (h1s.length > 1) {
-                    issues.push({ category: 'SEO', severity: 'Minor', title: 'Multiple H1 Tags', description: 'Page should have exactly one H1 tag.' });
+
+                // STRUCTURED DATA AND SOCIAL PREVIEWS
+                try {
+                    const extracted = await extractStructuredData(page);
+                    structuredData = extracted.items.map(({ format, type }) => ({ format, type }));
+                    scanIssues.push(...validateStructuredData(extracted, url));
+
+                    const social = await auditSocialTags(await readSocialTags(page), url, probeImage);
+                    socialPreview = social.preview;
+                    scanIssues.push(...social.issues);
+                } catch (e) {
+                    console.error(`Structured data audit failed for ${url}:`, e);
                 }
-                const canonical = document.querySelector('link[rel="canonical"]');
-                if (!canonical) {
-                    issues.push({ category: 'SEO', severity: 'Suggestion', title: 'Missing Canonical Tag', description: 'Canonical tag helps prevent duplicate content issues.' });
+
+                // Compared across pages once the whole site is scanned
+                try {
+                    hreflangPages.push(await collectHreflang(page, response, url));
+                } catch (e) {
+                    console.error(`Reading hreflang failed for ${url}:`, e);
                 }
 
-                // --- BEST PRACTICES ---
-                // Mixed Content (if page is HTTPS, check for HTTP resources)
-                if (window.location.protocol === 'https:') {
-                    const insecureResources = Array.from(document.querySelectorAll('img[src^="http:"], script[src^="http:"], link[href^="http:"]'));
-                    if (insecureResources.length > 0) {
-                        issues.push({ category: 'Best Practices', severity: 'Major', title: 'Mixed Content', description: `${insecureResources.length} resources are loaded over insecure HTTP.` });
-                    }
+                // ADD PERFORMANCE METRICS ISSUES
+                const { lcp, fcp, cls, duration } = analysis.metrics;
+
+                // LCP
+                if (lcp > 2500) {
+                    scanIssues.push({ category: 'Performance', severity: 'Minor', title: 'Slow Largest Contentful Paint (LCP)', description: `LCP was ${Math.round(lcp)}ms (Target < 2.5s).`, affectedUrl: url });
                 }
 
-                // Unsafe links to cross-origin destinations
-                const unsafeLinks = Array.from(document.querySelectorAll('a[target="_blank"]:not([rel~="noopener"]):not([rel~="noreferrer"])'));
-                if (unsafeLinks.length > 0) {
-                    issues.push({ category: 'Best Practices', severity: 'Minor', title: 'Unsafe Cross-Origin Links', description: `${unsafeLinks.length} links use target="_blank" without rel="noopener noreferrer".` });
+                // FCP
+                if (fcp > 1800) {
+                    scanIssues.push({ category: 'Performance', severity: 'Suggestion', title: 'Slow First Contentful Paint (FCP)', description: `FCP was ${Math.round(fcp)}ms (Target < 1.8s).`, affectedUrl: url });
                 }
 
-                // --- RESPONSIVENESS (Static) ---
-                const viewport = document.querySelector('meta[name="viewport"]');
-                if (!viewport) {
-                    issues.push({ category: 'Responsiveness & Layout', severity: 'Major', title: 'Missing Viewport Meta Tag', description: 'Page is missing viewport meta tag for mobile responsiveness.' });
+                // CLS
+                if (cls > 0.1) {
+                    scanIssues.push({ category: 'Performance', severity: 'Minor', title: 'Cumulative Layout Shift (CLS)', description: `CLS score was ${cls.toFixed(3)} (Target < 0.1).`, affectedUrl: url });
                 }
 
-                return {
-                    metrics: {
-                        lcp: metrics.lcp,
-                        fcp: metrics.fcp,
-                        cls: metrics.cls,
-                        duration: nav?.duration,
-                        domComplete: nav?.domComplete
-                    },
-                    onPageIssues: issues
-                };
-            });
+                // Fallback Load Time
+                if (!lcp && duration > 5000) {
+                    scanIssues.push({ category: 'Performance', severity: 'Suggestion', title: 'Slow Load Time', description: `Page took ${Math.round(duration)}ms to load.`, affectedUrl: url });
+                }
 
-            // ADD EVALUATED ISSUES
-            analysis.onPageIssues.forEach(i => scanIssues.push({ ...i, affectedUrl: url }));
 
-            // ADD PERFORMANCE METRICS ISSUES
-            const { lcp, fcp, cls, duration } = analysis.metrics;
+                // RESPONSIVENESS & INTERACTION CHECKS PER BREAKPOINT
+                for (const bp of BREAKPOINTS) {
+                    await page.setViewportSize({ width: bp.width, height: bp.height });
+                    // Wait a bit for layout
+                    await page.waitForTimeout(500);
+
+                    // Check for horizontal scroll (overflow)
+                    const scrollWidth = await page.evaluate(() => document.documentElement.scrollWidth);
+                    const clientWidth = await page.evaluate(() => document.documentElement.clientWidth);
+                    if (scrollWidth > clientWidth) {
+                        scanIssues.push({
+                            category: 'Responsiveness & Layout',
+                            severity: 'Major',
+                            title: 'Horizontal Overflow',
+                            description: `Content overflows width on ${bp.name} (${bp.width}px)`,
+                            affectedUrl: url
+                        });
+                    }
 
-            // LCP
-            if (lcp > 2500) {
-                scanIssues.push({ category: 'Performance', severity: 'Minor', title: 'Slow Largest Contentful Paint (LCP)', description: `LCP was ${Math.round(lcp)}ms (Target < 2.5s).`, affectedUrl: url });
-            }
+                    if (options.screenshotDir) {
+                        const file = screenshotFileName(pagesProcessed, bp.id);
+                        const masks = options.visual?.mask || [];
+                        try {
+                            const size = await page.evaluate(() => ({
+                                width: document.documentElement.scrollWidth,
+                                height: document.documentElement.scrollHeight
+                            }));
+                            await page.screenshot({
+                                path: path.join(options.screenshotDir, file),
+                                fullPage: true,
+                                clip: { x: 0, y: 0, width: size.width, height: Math.min(size.height, MAX_SCREENSHOT_HEIGHT) },
+                                animations: 'disabled',
+                                caret: 'hide',
+                                mask: masks.map(selector => page.locator(selector))
+                            });
+                            screenshots.push({ device: bp.id, name: bp.name, width: bp.width, height: bp.height, file });
+                        } catch (e) {
+                            throwIfCancelled();
+                            console.error(`Screenshot failed for ${url} on ${bp.name}:`, e);
+                            // A selector the page's engine rejects fails every capture, so name it
+                            const broken: string[] = [];
+                            for (const selector of masks) {
+                                await page.locator(selector).count().catch(() => broken.push(selector));
+                            }
+                            if (broken.length > 0 && !scanIssues.some(i => i.ruleId === 'visual/mask-failed' && i.affectedUrl === url)) {
+                                scanIssues.push({
+                                    category: 'Responsiveness & Layout',
+                                    severity: 'Suggestion',
+                                    title: 'Screenshot Mask Failed',
+                                    description: `No screenshots were taken because these mask selectors are invalid: ${broken.join(', ')}`,
+                                    affectedUrl: url,
+                                    ruleId: 'visual/mask-failed'
+                                });
+                            }
+                            continue;
+                        }
 
-            // FCP
-            if (fcp > 1800) {
-                scanIssues.push({ category: 'Performance', severity: 'Suggestion', title: 'Slow First Contentful Paint (FCP)', description: `FCP was ${Math.round(fcp)}ms (Target < 1.8s).`, affectedUrl: url });
-            }
+                        const baseline = options.baselineFor?.(url, bp.id);
+                        if (baseline) {
+                            const baselineFile = screenshotFileName(pagesProcessed, bp.id, 'baseline');
+                            const diffFile = screenshotFileName(pagesProcessed, bp.id, 'diff');
+                            try {
+                                fs.copyFileSync(baseline.file, path.join(options.screenshotDir, baselineFile));
+                                const { mismatch } = compareScreenshots(
+                                    baseline.file,
+                                    path.join(options.screenshotDir, file),
+                                    path.join(options.screenshotDir, diffFile),
+                                    options.visual?.tolerance
+                                );
+                                visualDiffs.push({
+                                    device: bp.id,
+                                    name: bp.name,
+                                    mismatch,
+                                    file,
+                                    baselineFile,
+                                    diffFile,
+                                    baselineScanId: baseline.scanId,
+                                    baselineTimestamp: baseline.timestamp
+                                });
+
+                                if (mismatch > (options.visual?.threshold ?? DEFAULT_THRESHOLD)) {
+                                    scanIssues.push({
+                                        category: 'Responsiveness & Layout',
+                                        severity: mismatch >= 0.1 ? 'Major' : 'Minor',
+                                        title: 'Visual Change Detected',
+                                        description: `${(mismatch * 100).toFixed(1)}% of the page changed on ${bp.name} (${bp.width}px) compared to the baseline from ${new Date(baseline.timestamp).toISOString().slice(0, 10)}.`,
+                                        affectedUrl: url,
+                                        ruleId: 'visual/regression'
+                                    });
+                                }
+                            } catch (e) {
+                                console.error(`Visual comparison failed for ${url} on ${bp.name}:`, e);
+                            }
+                        }
+                    }
+                }
 
-            // CLS
-            if (cls > 0.1) {
-                scanIssues.push({ category: 'Performance', severity: 'Minor', title: 'Cumulative Layout Shift (CLS)', description: `CLS score was ${cls.toFixed(3)} (Target < 0.1).`, affectedUrl: url });
-            }
+                pageMetrics = { ...analysis.metrics, resources };
 
-            // Fallback Load Time
-            if (!lcp && duration > 5000) {
-                scanIssues.push({ category: 'Performance', severity: 'Suggestion', title: 'Slow Load Time', description: `Page took ${Math.round(duration)}ms to load.`, affectedUrl: url });
+            } catch (e) {
+                // A cancelled scan closes the browser under us, that is not a page failure
+                throwIfCancelled();
+                scanIssues.push({
+                    category: 'Errors & Reliability',
+                    severity: 'Critical',
+                    title: 'Scan Failed',
+                    description: `Could not load page for scanning: ${(e as Error).message}`,
+                    affectedUrl: url
+                });
             }
 
-
-            // RESPONSIVENESS & INTERACTION CHECKS PER BREAKPOINT
-            for (const bp of BREAKPOINTS) {
-                await page.setViewportSize({ width: bp.width, height: bp.height });
-                // Wait a bit for layout
-                await page.waitForTimeout(500);
-
-                // Check for horizontal scroll (overflow)
-                const scrollWidth = await page.evaluate(() => document.documentElement.scrollWidth);
-                const clientWidth = await page.evaluate(() => document.documentElement.clientWidth);
-                if (scrollWidth > clientWidth) {
+            if (lighthouseBrowser) {
+                throwIfCancelled();
+                emitProgress(
+                    `Running Lighthouse on ${url}...`,
+                    20 + Math.floor(((pagesProcessed + 0.5) / pages.length) * 70)
+                );
+                try {
+                    const lighthouseResult = await runLighthouse(lighthouseBrowser, url, authContext);
+                    lighthouseScores = lighthouseResult.scores;
+                    scanIssues.push(...lighthouseResult.issues);
+                } catch (e) {
+                    throwIfCancelled();
+                    console.error(`Lighthouse failed for ${url}:`, e);
+                    emitProgress(
+                        `Lighthouse failed on ${url}: ${(e as Error).message}`,
+                        20 + Math.floor(((pagesProcessed + 0.5) / pages.length) * 70)
+                    );
+                    // Only a suggestion, the page itself may be fine
                     scanIssues.push({
-                        category: 'Responsiveness & Layout',
-                        severity: 'Major',
-                        title: 'Horizontal Overflow',
-                        description: `Content overflows width on ${bp.name} (${bp.width}px)`,
-                        affectedUrl: url
+                        category: 'Performance',
+                        severity: 'Suggestion',
+                        title: 'Lighthouse Audit Failed',
+                        description: `Lighthouse could not audit this page, its scores are missing: ${(e as Error).message}`,
+                        affectedUrl: url,
+                        ruleId: 'lighthouse/failed'
                     });
                 }
             }
 
-            pageMetrics = analysis.metrics;
-
-        } catch (e) {
-            scanIssues.push({
-                category: 'Errors & Reliability',
-                severity: 'Critical',
-                title: 'Scan Failed',
-                description: `Could not load page for scanning: ${(e as Error).message}`,
-                affectedUrl: url
+            // Calculate score for this specific page
+            const pageIssues = scanIssues.filter(i => i.affectedUrl === url);
+            const pageScoreReport = calculateScore(pageIssues, [], options.scoringProfile);
+
+            pageReports.push({
+                url: url,
+                score: pageScoreReport.overallScore,
+                categoryScores: pageScoreReport.categories,
+                metrics: pageMetrics || {},
+                issues: pageIssues,
+                lighthouse: lighthouseScores,
+                screenshots: screenshots.length > 0 ? screenshots : undefined,
+                visualDiffs: visualDiffs.length > 0 ? visualDiffs : undefined,
+                socialPreview,
+                structuredData
             });
+
+            await page.close();
+            pagesProcessed++;
         }
 
-        // Calculate score for this specific page
-        const pageIssues = scanIssues.filter(i => i.affectedUrl === url);
-        const pageScoreReport = calculateScore(pageIssues);
+        // 3. Site-wide comparisons, only possible once every page is in
+        throwIfCancelled();
+        emitProgress('Comparing pages...', 90);
+        const requestFor = requests.for;
+        const statusOf: StatusLookup = async target => {
+            // Redirects count as a problem for canonicals and alternates, so they are not followed
+            const requestOptions = { timeout: 10000, failOnStatusCode: false, maxRedirects: 0 };
+            try {
+                const api = requestFor(target);
+                let response = await api.head(target, requestOptions);
+                if (response.status() === 405 || response.status() === 501) {
+                    response = await api.get(target, requestOptions);
+                }
+                return response.status();
+            } catch {
+                return null;
+            }
+        };
+        const siteIssues = [
+            ...await duplicateContentIssues(signals, statusOf),
+            ...await hreflangIssues(hreflangPages, statusOf)
+        ];
+        scanIssues.push(...siteIssues);
+        for (const pageReport of pageReports) {
+            const added = siteIssues.filter(i => i.affectedUrl === pageReport.url);
+            if (added.length === 0) continue;
+            pageReport.issues.push(...added);
+            const pageScoreReport = calculateScore(pageReport.issues, [], options.scoringProfile);
+            pageReport.score = pageScoreReport.overallScore;
+            pageReport.categoryScores = pageScoreReport.categories;
+        }
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
+        // Already closed when the scan was cancelled
+        await browser.close().catch(() => { });
+        await lighthouseBrowser?.close().catch(() => { });
+        await requests?.dispose().catch(() => { });
+    }
 
-        pageReports.push({
-            url: url,
-            score: pageScoreReport.overallScore,
-            categoryScores: pageScoreReport.categories,
-            metrics: pageMetrics || {},
-            issues: pageIssues
-        });
+    // A cancel arriving during the site-wide comparisons must not end up as a complete report
+    throwIfCancelled();
 
-        await page.close();
-        pagesProcessed++;
+    // Console output and error messages can echo tokens or cookies back, scrub them before anything is stored
+    const secrets = secretValues(options.auth);
+    if (secrets.length > 0) {
+        for (const issue of scanIssues) {
+            issue.title = redactSecrets(issue.title, secrets);
+            issue.description = redactSecrets(issue.description, secrets);
+        }
     }
 
-    await browser.close();
+    // Taken after redaction so no fingerprint is derived from a secret
+    for (const issue of scanIssues) {
+        issue.fingerprint = fingerprintOf(issue);
+    }
 
     // Final Scoring
-    const report = calculateScore(scanIssues, pageReports);
-
-    io.to(scanId).emit('scan:complete', { scanId, report });
-    updateState({ status: 'COMPLETE', report, progress: 100, message: 'Scan Complete' });
+    return calculateScore(scanIssues, pageReports, options.scoringProfile);
 }
@@ -0,0 +1,113 @@
+import type { DB } from './db';
+
+export interface ScanSchedule {
+    id: string;
+    url: string;
+    devices: string[];
+    pageLimit: number;
+    cron: string;
+    scoringProfile?: string;
+    createdAt: number;
+    // Null when the cron expression has no future match
+    nextRunAt: number | null;
+    lastRunAt?: number;
+    lastScanId?: string;
+}
+
+export interface ScheduleRepository {
+    create(schedule: ScanSchedule): void;
+    get(scheduleId: string): ScanSchedule | undefined;
+    list(): ScanSchedule[];
+    delete(scheduleId: string): boolean;
+    // Schedules whose next run is at or before `now`
+    listDue(now: number): ScanSchedule[];
+    update(scheduleId: string, update: Partial<ScanSchedule>): ScanSchedule | undefined;
+}
+
+interface ScheduleRow {
+    id: string;
+    url: string;
+    devices: string;
+    page_limit: number;
+    cron: string;
+    scoring_profile: string | null;
+    created_at: number;
+    next_run_at: number | null;
+    last_run_at: number | null;
+    last_scan_id: string | null;
+}
+
+export class SqliteScheduleRepository implements ScheduleRepository {
+    constructor(private db: DB) { }
+
+    create(schedule: ScanSchedule) {
+        this.db.prepare(`
+            INSERT INTO schedules (id, url, devices, page_limit, cron, scoring_profile, created_at, next_run_at, last_run_at, last_scan_id)
+            VALUES (@id, @url, @devices, @page_limit, @cron, @scoring_profile, @created_at, @next_run_at, @last_run_at, @last_scan_id)
+        `).run(this.toRow(schedule));
+    }
+
+    get(scheduleId: string): ScanSchedule | undefined {
+        const row = this.db.prepare('SELECT * FROM schedules WHERE id = ?').get(scheduleId) as ScheduleRow | undefined;
+        return row ? this.fromRow(row) : undefined;
+    }
+
+    list(): ScanSchedule[] {
+        const rows = this.db.prepare('SELECT * FROM schedules ORDER BY created_at ASC').all() as ScheduleRow[];
+        return rows.map(row => this.fromRow(row));
+    }
+
+    delete(scheduleId: string): boolean {
+        return this.db.prepare('DELETE FROM schedules WHERE id = ?').run(scheduleId).changes > 0;
+    }
+
+    listDue(now: number): ScanSchedule[] {
+        const rows = this.db.prepare(`
+            SELECT * FROM schedules WHERE next_run_at IS NOT NULL AND next_run_at <= ? ORDER BY next_run_at ASC
+        `).all(now) as ScheduleRow[];
+        return rows.map(row => this.fromRow(row));
+    }
+
+    update(scheduleId: string, update: Partial<ScanSchedule>): ScanSchedule | undefined {
+        const current = this.get(scheduleId);
+        if (!current) return undefined;
+
+        const next: ScanSchedule = { ...current, ...update, id: scheduleId };
+        this.db.prepare(`
+            UPDATE schedules SET url = @url, devices = @devices, page_limit = @page_limit, cron = @cron, scoring_profile = @scoring_profile, created_at = @created_at,
+                next_run_at = @next_run_at, last_run_at = @last_run_at, last_scan_id = @last_scan_id
+            WHERE id = @id
+        `).run(this.toRow(next));
+        return next;
+    }
+
+    private toRow(schedule: ScanSchedule): ScheduleRow {
+        return {
+            id: schedule.id,
+            url: schedule.url,
+            devices: JSON.stringify(schedule.devices),
+            page_limit: schedule.pageLimit,
+            cron: schedule.cron,
+            scoring_profile: schedule.scoringProfile ?? null,
+            created_at: schedule.createdAt,
+            next_run_at: schedule.nextRunAt,
+            last_run_at: schedule.lastRunAt ?? null,
+            last_scan_id: schedule.lastScanId ?? null
+        };
+    }
+
+    private fromRow(row: ScheduleRow): ScanSchedule {
+        return {
+            id: row.id,
+            url: row.url,
+            devices: JSON.parse(row.devices),
+            pageLimit: row.page_limit,
+            cron: row.cron,
+            scoringProfile: row.scoring_profile ?? undefined,
+            createdAt: row.created_at,
+            nextRunAt: row.next_run_at,
+            lastRunAt: row.last_run_at ?? undefined,
+            lastScanId: row.last_scan_id ?? undefined
+        };
+    }
+}
@@ -1,9 +1,66 @@
+import crypto from 'crypto';
+import { applyCurve, DEFAULT_PROFILE, ScoringProfile } from './scoringProfiles';
+import { normalizeDescription } from './diff';
+import type { SocialPreview } from './socialPreview';
+import type { StructuredDataFormat } from './structuredData';
+import type { ResourceBreakdown } from './pageWeight';
+
 export interface Issue {
-    category: 'Performance' | 'Responsiveness & Layout' | 'Accessibility' | 'SEO' | 'Errors & Reliability' | 'Best Practices';
+    category: 'Performance' | 'Responsiveness & Layout' | 'Accessibility' | 'SEO' | 'Errors & Reliability' | 'Best Practices' | 'Security';
     severity: 'Critical' | 'Major' | 'Minor' | 'Suggestion';
     title: string;
     description: string;
     affectedUrl: string;
+    // Stable identifier of the check that produced the issue, e.g. 'axe/color-contrast'
+    ruleId?: string;
+    // WCAG success criteria, e.g. ['1.4.3']
+    wcag?: string[];
+    // CSS selectors of the offending elements
+    elements?: string[];
+    // Stays the same across scans while the issue does, triage decisions are keyed on it
+    fingerprint?: string;
+    triage?: IssueTriage;
+}
+
+export type TriageStatus = 'acknowledged' | 'wont_fix' | 'false_positive' | 'ignored';
+
+// Triaged issues stay in the report but no longer count towards the score
+export interface IssueTriage {
+    status: TriageStatus;
+    note?: string;
+    // Set when an ignore rule rather than a decision on this very issue matched
+    ignoreRuleId?: string;
+}
+
+// Full-page capture of a page at one breakpoint, file is relative to the scan's screenshot folder
+export interface Screenshot {
+    device: string;
+    name: string;
+    width: number;
+    height: number;
+    file: string;
+}
+
+// Comparison of a screenshot against the accepted baseline for the same URL and device.
+// The baseline is copied next to the scan's own screenshots so the report outlives it.
+export interface VisualDiff {
+    device: string;
+    name: string;
+    // Share of pixels that changed, 0-1
+    mismatch: number;
+    file: string;
+    baselineFile: string;
+    diffFile: string;
+    baselineScanId: string;
+    baselineTimestamp: number;
+}
+
+// Raw 0-100 category scores from an optional Lighthouse pass
+export interface LighthouseScores {
+    performance?: number;
+    accessibility?: number;
+    seo?: number;
+    bestPractices?: number;
 }
 
 export interface PageReport {
@@ -14,6 +71,8 @@ export interface PageReport {
         fcp?: number;
         cls?: number;
         duration?: number;
+        // What the page loaded on its first visit, absent on reports from before it was recorded
+        resources?: ResourceBreakdown;
     };
     categoryScores: {
         Performance: number;
@@ -22,8 +81,23 @@ export interface PageReport {
         SEO: number;
         'Errors & Reliability': number;
         'Best Practices': number;
+        Security: number;
     };
     issues: Issue[];
+    lighthouse?: LighthouseScores;
+    screenshots?: Screenshot[];
+    visualDiffs?: VisualDiff[];
+    socialPreview?: SocialPreview;
+    // Structured data items found on the page, absent on reports from before it was extracted
+    structuredData?: { format: StructuredDataFormat; type: string }[];
+}
+
+// Issues sharing a rule and message, such as an error in the shared layout, collapsed into one entry
+export interface Finding extends Omit<Issue, 'affectedUrl' | 'fingerprint'> {
+    ruleId: string;
+    affectedUrls: string[];
+    fingerprints: string[];
+    occurrences: number;
 }
 
 export interface ScoreReport {
@@ -35,56 +109,116 @@ export interface ScoreReport {
         SEO: number;
         'Errors & Reliability': number;
         'Best Practices': number;
+        Security: number;
     };
     details: Issue[];
+    // details grouped, absent on reports from before grouping existed
+    findings?: Finding[];
     pages: PageReport[];
+    // Scoring profile the scores were calculated with, absent on reports from before profiles existed
+    profile?: string;
 }
 
-const WEIGHTS = {
-    Performance: 0.25,
-    'Responsiveness & Layout': 0.20,
-    Accessibility: 0.15,
-    SEO: 0.15,
-    'Errors & Reliability': 0.15,
-    'Best Practices': 0.10
-};
-
-export function calculateScore(issues: Issue[], pages: PageReport[] = []): ScoreReport {
-    // Start with 100 for each category
-    const scores = {
-        Performance: 100,
-        'Responsiveness & Layout': 100,
-        Accessibility: 100,
-        SEO: 100,
-        'Errors & Reliability': 100,
-        'Best Practices': 100
-    };
+// Checks without a rule id of their own get one derived from where they come from
+export function ruleIdOf(issue: Pick<Issue, 'ruleId' | 'category' | 'title'>): string {
+    if (issue.ruleId) return issue.ruleId;
+    const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return `${slug(issue.category)}/${slug(issue.title)}`;
+}
 
-    // Deduced points per severity
-    const PENALTY = {
-        Critical: 25,
-        Major: 15,
-        Minor: 5,
-        Suggestion: 1
+// Page URLs in a message (e.g. "... on https://site/about") would keep otherwise identical issues apart
+function withoutPageUrl(issue: Issue): string {
+    return normalizeDescription(issue.description.split(issue.affectedUrl).join('<page>'));
+}
+
+// Query strings, fragments and trailing slashes do not make a different page
+function normalizeUrl(url: string): string {
+    try {
+        const parsed = new URL(url);
+        return `${parsed.protocol}//${parsed.host}${parsed.pathname.replace(/\/+$/, '')}`;
+    } catch {
+        return url;
+    }
+}
+
+export function fingerprintOf(issue: Issue): string {
+    const key = [ruleIdOf(issue), normalizeUrl(issue.affectedUrl), withoutPageUrl(issue)].join('::');
+    return crypto.createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+// Triaged occurrences are kept apart from open ones so a finding is either counted or not
+function findingKey(issue: Issue): string {
+    return [ruleIdOf(issue), issue.severity, withoutPageUrl(issue), issue.triage?.status ?? 'open'].join('::');
+}
+
+// Keeps first-seen order, the first occurrence's description stands for the group
+export function groupIssues(issues: Issue[]): Finding[] {
+    const groups = new Map<string, Finding>();
+    for (const issue of issues) {
+        const key = findingKey(issue);
+        const group = groups.get(key);
+        if (!group) {
+            const { affectedUrl, fingerprint, ...rest } = issue;
+            groups.set(key, { ...rest, ruleId: ruleIdOf(issue), affectedUrls: [affectedUrl], fingerprints: fingerprint ? [fingerprint] : [], occurrences: 1 });
+            continue;
+        }
+
+        group.occurrences++;
+        if (issue.fingerprint && !group.fingerprints.includes(issue.fingerprint)) {
+            group.fingerprints.push(issue.fingerprint);
+        }
+        if (!group.affectedUrls.includes(issue.affectedUrl)) {
+            group.affectedUrls.push(issue.affectedUrl);
+        }
+        if (issue.elements) {
+            group.elements = Array.from(new Set([...(group.elements || []), ...issue.elements]));
+        }
+    }
+    return Array.from(groups.values());
+}
+
+export function calculateScore(issues: Issue[], pages: PageReport[] = [], profile: ScoringProfile = DEFAULT_PROFILE): ScoreReport {
+    // Penalty points collected per category
+    const penalties = {
+        Performance: 0,
+        'Responsiveness & Layout': 0,
+        Accessibility: 0,
+        SEO: 0,
+        'Errors & Reliability': 0,
+        'Best Practices': 0,
+        Security: 0
     };
 
-    issues.forEach(issue => {
-        scores[issue.category] = Math.max(0, scores[issue.category] - PENALTY[issue.severity]);
+    // A finding costs the same whether it shows up on one page or on fifty
+    const findings = groupIssues(issues);
+    findings.filter(finding => !finding.triage).forEach(finding => {
+        penalties[finding.category] += profile.rules?.[finding.ruleId] ?? profile.penalties[finding.severity];
     });
 
+    const scores = {
+        Performance: applyCurve(profile.curve, penalties.Performance),
+        'Responsiveness & Layout': applyCurve(profile.curve, penalties['Responsiveness & Layout']),
+        Accessibility: applyCurve(profile.curve, penalties.Accessibility),
+        SEO: applyCurve(profile.curve, penalties.SEO),
+        'Errors & Reliability': applyCurve(profile.curve, penalties['Errors & Reliability']),
+        'Best Practices': applyCurve(profile.curve, penalties['Best Practices']),
+        Security: applyCurve(profile.curve, penalties.Security)
+    };
+
     // Calculate weighted average
     let totalWeighted = 0;
-    totalWeighted += scores.Performance * WEIGHTS.Performance;
-    totalWeighted += scores['Responsiveness & Layout'] * WEIGHTS['Responsiveness & Layout'];
-    totalWeighted += scores.Accessibility * WEIGHTS.Accessibility;
-    totalWeighted += scores.SEO * WEIGHTS.SEO;
-    totalWeighted += scores['Errors & Reliability'] * WEIGHTS['Errors & Reliability'];
-    totalWeighted += scores['Best Practices'] * WEIGHTS['Best Practices'];
+    let totalWeight = 0;
+    for (const category of Object.keys(scores) as (keyof typeof scores)[]) {
+        totalWeighted += scores[category] * profile.weights[category];
+        totalWeight += profile.weights[category];
+    }
 
     return {
-        overallScore: Math.round(totalWeighted),
+        overallScore: Math.round(totalWeighted / totalWeight),
         categories: scores,
         details: issues,
-        pages
+        findings,
+        pages,
+        profile: profile.name
     };
 }
@@ -0,0 +1,130 @@
+import { Issue, ruleIdOf } from './scorer';
+
+type Category = Issue['category'];
+
+export type ScoreCurve =
+    | { type: 'linear' }
+    // Every `halfLife` points of penalty halve what is left, so a category approaches 0 without flooring at it
+    | { type: 'diminishing'; halfLife: number };
+
+export interface ScoringProfile {
+    name: string;
+    description: string;
+    // Relative weights, normalised by their sum
+    weights: Record<Category, number>;
+    // Points a single issue takes off its category
+    penalties: Record<Issue['severity'], number>;
+    // Penalty per rule id, replacing the severity penalty; 0 ignores the rule
+    rules?: Record<string, number>;
+    curve: ScoreCurve;
+}
+
+// Issues a profile may retune, by the category and title they are raised with. The rule ids are derived
+// the way ruleIdOf derives them, so a profile naming the wrong category fails instead of silently not matching.
+const TUNABLE_ISSUES: Pick<Issue, 'category' | 'title'>[] = [
+    { category: 'SEO', title: 'Missing Meta Description' },
+    { category: 'SEO', title: 'Missing Canonical Tag' },
+    { category: 'SEO', title: 'Missing Sitemap' },
+    { category: 'SEO', title: 'Page Missing From Sitemap' },
+    { category: 'Best Practices', title: 'Console Warning' }
+];
+
+const DEFAULT_PENALTIES = {
+    Critical: 25,
+    Major: 15,
+    Minor: 5,
+    Suggestion: 1
+};
+
+export const SCORING_PROFILES: Record<string, ScoringProfile> = {
+    default: {
+        name: 'default',
+        description: 'Balanced weights with linear penalties, the original scoring',
+        weights: {
+            Performance: 0.25,
+            'Responsiveness & Layout': 0.20,
+            Accessibility: 0.15,
+            SEO: 0.15,
+            'Errors & Reliability': 0.15,
+            'Best Practices': 0.10,
+            Security: 0.10
+        },
+        penalties: DEFAULT_PENALTIES,
+        curve: { type: 'linear' }
+    },
+    marketing: {
+        name: 'marketing',
+        description: 'Public content and landing pages, search visibility and speed count most',
+        weights: {
+            Performance: 0.25,
+            'Responsiveness & Layout': 0.20,
+            Accessibility: 0.15,
+            SEO: 0.25,
+            'Errors & Reliability': 0.10,
+            'Best Practices': 0.05,
+            Security: 0.05
+        },
+        penalties: DEFAULT_PENALTIES,
+        rules: {
+            'seo/missing-meta-description': 15,
+            'seo/page-missing-from-sitemap': 5,
+            'best-practices/console-warning': 0
+        },
+        curve: { type: 'diminishing', halfLife: 75 }
+    },
+    'web-app': {
+        name: 'web-app',
+        description: 'Signed-in applications, reliability and accessibility count most and search metadata barely',
+        weights: {
+            Performance: 0.20,
+            'Responsiveness & Layout': 0.15,
+            Accessibility: 0.20,
+            SEO: 0.05,
+            'Errors & Reliability': 0.30,
+            'Best Practices': 0.10,
+            Security: 0.15
+        },
+        penalties: DEFAULT_PENALTIES,
+        rules: {
+            'seo/missing-meta-description': 0,
+            'seo/missing-canonical-tag': 0,
+            'seo/missing-sitemap': 0,
+            'seo/page-missing-from-sitemap': 0
+        },
+        curve: { type: 'diminishing', halfLife: 75 }
+    }
+};
+
+export const DEFAULT_PROFILE = SCORING_PROFILES.default;
+
+function isProfileName(name: unknown): name is string {
+    return typeof name === 'string' && Object.prototype.hasOwnProperty.call(SCORING_PROFILES, name);
+}
+
+// A missing name picks the default profile, anything else must name one of SCORING_PROFILES whose rules exist
+export function parseScoringProfile(raw: unknown): string {
+    if (raw === undefined || raw === null || raw === '') return DEFAULT_PROFILE.name;
+    if (!isProfileName(raw)) {
+        throw new Error(`Unknown scoring profile, expected one of ${Object.keys(SCORING_PROFILES).join(', ')}`);
+    }
+    // Worked out here rather than at load time, scorer imports this module
+    const tunable = new Set(TUNABLE_ISSUES.map(ruleIdOf));
+    const unknown = Object.keys(SCORING_PROFILES[raw].rules ?? {}).filter(ruleId => !tunable.has(ruleId));
+    if (unknown.length > 0) {
+        throw new Error(`Scoring profile ${raw} tunes rules no issue has: ${unknown.join(', ')}`);
+    }
+    return raw;
+}
+
+// Scans stored before profiles existed, or with a profile that was since removed, use the default
+export function scoringProfile(name?: string): ScoringProfile {
+    return isProfileName(name) ? SCORING_PROFILES[name] : DEFAULT_PROFILE;
+}
+
+// Turns the penalty points a category collected into its 0-100 score
+export function applyCurve(curve: ScoreCurve, penalty: number): number {
+    if (curve.type === 'diminishing') {
+        return Math.round(100 * Math.pow(0.5, penalty / curve.halfLife));
+    }
+    return Math.max(0, 100 - penalty);
+}
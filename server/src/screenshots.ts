@@ -0,0 +1,34 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+export const SCREENSHOT_ROOT = process.env.SCREENSHOT_DIR || path.join(__dirname, '..', 'data', 'screenshots');
+
+// Accepted baselines live outside any scan folder so purging old scans keeps them
+const BASELINE_DIR = path.join(SCREENSHOT_ROOT, 'baselines');
+
+// Only names the scanner writes, so a request can never climb out of the scan's folder
+const SCREENSHOT_FILE = /^[\w-]+\.(jpg|png)$/;
+
+export function screenshotDirFor(scanId: string): string {
+    return path.join(SCREENSHOT_ROOT, scanId);
+}
+
+export function screenshotPath(scanId: string, file: string): string | null {
+    if (!SCREENSHOT_FILE.test(file)) return null;
+    return path.join(screenshotDirFor(scanId), file);
+}
+
+export function screenshotFileName(pageIndex: number, device: string, variant?: 'baseline' | 'diff'): string {
+    const name = `${pageIndex}-${device.replace(/[^\w-]/g, '_')}`;
+    return `${variant ? `${name}-${variant}` : name}.png`;
+}
+
+export function baselinePathFor(url: string, device: string): string {
+    const key = crypto.createHash('sha1').update(`${url}\n${device}`).digest('hex');
+    return path.join(BASELINE_DIR, `${key}.png`);
+}
+
+export function deleteScreenshots(scanId: string) {
+    fs.rmSync(screenshotDirFor(scanId), { recursive: true, force: true });
+}
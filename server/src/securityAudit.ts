@@ -0,0 +1,133 @@
+import type { Response } from 'playwright';
+import type { Issue } from './scorer';
+
+// Browsers only remember HSTS for max-age, half a year is the usual minimum
+const MIN_HSTS_MAX_AGE = 15552000;
+
+// Headers that commonly give away the software stack. Server is only flagged when it carries a version,
+// the others have no purpose beyond advertising the stack.
+const BANNER_HEADERS = ['server', 'x-powered-by', 'x-aspnet-version', 'x-aspnetmvc-version', 'x-generator'];
+
+interface SetCookie {
+    name: string;
+    attributes: Set<string>;
+    sameSite?: string;
+}
+
+function parseSetCookie(header: string): SetCookie {
+    const [pair, ...parts] = header.split(';');
+    const attributes = new Set<string>();
+    let sameSite: string | undefined;
+    for (const part of parts) {
+        const [key, value] = part.split('=').map(s => s.trim());
+        const name = key.toLowerCase();
+        attributes.add(name);
+        if (name === 'samesite') sameSite = value?.toLowerCase();
+    }
+    return { name: pair.split('=')[0].trim(), attributes, sameSite };
+}
+
+// Names the cookies readably, a session can set dozens
+function cookieSubject(cookies: SetCookie[], singular: string, plural: string): string {
+    const names = cookies.map(cookie => cookie.name);
+    if (names.length === 1) return `The cookie ${names[0]} ${singular}`;
+    const list = names.length > 5 ? `${names.slice(0, 5).join(', ')} and ${names.length - 5} more` : names.join(', ');
+    return `Cookies ${list} ${plural}`;
+}
+
+function cookieIssues(headers: { name: string; value: string }[], https: boolean): Omit<Issue, 'affectedUrl'>[] {
+    // The first Set-Cookie for a name wins, headers come in from the final response backwards
+    const byName = new Map<string, SetCookie>();
+    for (const header of headers) {
+        if (header.name.toLowerCase() !== 'set-cookie') continue;
+        const cookie = parseSetCookie(header.value);
+        if (!byName.has(cookie.name)) byName.set(cookie.name, cookie);
+    }
+    const cookies = Array.from(byName.values());
+    const issues: Omit<Issue, 'affectedUrl'>[] = [];
+
+    // SameSite=None is rejected by browsers without Secure, so it counts here even on plain http
+    const insecure = cookies.filter(cookie => !cookie.attributes.has('secure') && (https || cookie.sameSite === 'none'));
+    if (insecure.length > 0) {
+        issues.push({ category: 'Security', severity: 'Major', title: 'Cookie Without Secure Flag', description: `${cookieSubject(insecure, 'is', 'are')} set without the Secure attribute and can leak over plain HTTP.` });
+    }
+    const scriptable = cookies.filter(cookie => !cookie.attributes.has('httponly'));
+    if (scriptable.length > 0) {
+        issues.push({ category: 'Security', severity: 'Minor', title: 'Cookie Without HttpOnly Flag', description: `${cookieSubject(scriptable, 'is', 'are')} readable from JavaScript. Session cookies should be HttpOnly so injected scripts cannot steal them.` });
+    }
+    const noSameSite = cookies.filter(cookie => !cookie.sameSite);
+    if (noSameSite.length > 0) {
+        issues.push({ category: 'Security', severity: 'Minor', title: 'Cookie Without SameSite', description: `${cookieSubject(noSameSite, 'does', 'do')} not set SameSite, set Lax or Strict to limit cross-site request forgery.` });
+    }
+    return issues;
+}
+
+// Inspects the main document response, subresources are usually served by CDNs the site does not control
+export async function runSecurityAudit(response: Response, url: string): Promise<Issue[]> {
+    const headers = await response.allHeaders();
+    const https = new URL(response.url()).protocol === 'https:';
+    const issues: Omit<Issue, 'affectedUrl'>[] = [];
+
+    const csp = headers['content-security-policy'];
+    if (!csp) {
+        const reportOnly = Boolean(headers['content-security-policy-report-only']);
+        issues.push({
+            category: 'Security',
+            severity: reportOnly ? 'Suggestion' : 'Major',
+            title: 'Missing Content Security Policy',
+            description: reportOnly
+                ? 'The Content-Security-Policy is only sent in report-only mode, so nothing is enforced yet.'
+                : 'No Content-Security-Policy header is sent. A policy limits where scripts can load from and blunts cross-site scripting.'
+        });
+    } else if (/script-src[^;]*'unsafe-inline'/.test(csp) && !/script-src[^;]*('nonce-|'sha\d+-|'strict-dynamic')/.test(csp)) {
+        issues.push({ category: 'Security', severity: 'Minor', title: 'Weak Content Security Policy', description: "The Content-Security-Policy allows 'unsafe-inline' scripts, which undoes most of its protection against cross-site scripting." });
+    }
+
+    if (https) {
+        const hsts = headers['strict-transport-security'];
+        const maxAge = Number(hsts?.match(/max-age=(\d+)/i)?.[1] ?? 0);
+        if (!hsts) {
+            issues.push({ category: 'Security', severity: 'Major', title: 'Missing HSTS Header', description: 'No Strict-Transport-Security header is sent, so the first visit can be downgraded to plain HTTP.' });
+        } else if (maxAge < MIN_HSTS_MAX_AGE) {
+            issues.push({ category: 'Security', severity: 'Minor', title: 'Short HSTS Max-Age', description: `Strict-Transport-Security max-age is ${maxAge} seconds, use at least ${MIN_HSTS_MAX_AGE} (180 days).` });
+        }
+    }
+
+    if (headers['x-content-type-options']?.toLowerCase() !== 'nosniff') {
+        issues.push({ category: 'Security', severity: 'Minor', title: 'Missing X-Content-Type-Options', description: 'X-Content-Type-Options: nosniff is not set, so browsers may guess content types and run uploads as scripts.' });
+    }
+
+    const frameOptions = headers['x-frame-options']?.toLowerCase();
+    const frameAncestors = csp && /frame-ancestors/i.test(csp);
+    if (!frameAncestors && frameOptions !== 'deny' && frameOptions !== 'sameorigin') {
+        issues.push({ category: 'Security', severity: 'Major', title: 'Missing Clickjacking Protection', description: 'Neither X-Frame-Options nor a CSP frame-ancestors directive is set, so other sites can embed this page in a frame.' });
+    }
+
+    const referrerPolicy = headers['referrer-policy']?.toLowerCase();
+    if (!referrerPolicy) {
+        issues.push({ category: 'Security', severity: 'Suggestion', title: 'Missing Referrer-Policy', description: 'No Referrer-Policy header is sent. strict-origin-when-cross-origin keeps full URLs from leaking to other sites.' });
+    } else if (referrerPolicy.includes('unsafe-url')) {
+        issues.push({ category: 'Security', severity: 'Minor', title: 'Unsafe Referrer-Policy', description: 'Referrer-Policy unsafe-url sends full URLs, including query strings, to every site this page links to.' });
+    }
+
+    if (!headers['permissions-policy']) {
+        issues.push({ category: 'Security', severity: 'Suggestion', title: 'Missing Permissions-Policy', description: 'No Permissions-Policy header is sent to turn off browser features such as camera, microphone and geolocation the site does not use.' });
+    }
+
+    const banners = BANNER_HEADERS
+        .filter(name => headers[name] && (name !== 'server' || /\d+(\.\d+)+/.test(headers[name])))
+        .map(name => `${name}: ${headers[name]}`);
+    if (banners.length > 0) {
+        issues.push({ category: 'Security', severity: 'Minor', title: 'Server Software Disclosed', description: `Response headers reveal the software stack (${banners.join('; ')}), which helps attackers look up known vulnerabilities.` });
+    }
+
+    // Sessions are often started on a redirect hop, a login or a locale redirect, so those cookies count too
+    const cookieHeaders = await response.headersArray();
+    for (let hop = response.request().redirectedFrom(); hop; hop = hop.redirectedFrom()) {
+        const redirect = await hop.response();
+        if (redirect) cookieHeaders.push(...await redirect.headersArray());
+    }
+    issues.push(...cookieIssues(cookieHeaders, https));
+
+    return issues.map(issue => ({ ...issue, affectedUrl: url }));
+}
@@ -1,41 +1,63 @@
+import crypto from 'crypto';
 import express from 'express';
 import { createServer } from 'http';
 import { Server } from 'socket.io';
 import cors from 'cors';
-import { runScan } from './scanner';
+import { DEVICE_MAP, isDeviceId, runScan } from './scanner';
+import { AuthConfig, AuthError, authMethods, parseAuthConfig } from './auth';
+import { openDatabase } from './db';
+import { hostOf, ScanState, SqliteScanRepository } from './scanStore';
+import { SqliteBaselineRepository } from './baselineStore';
+import { ScanSchedule, SqliteScheduleRepository } from './scheduleStore';
+import { nextRun, parseCron } from './cron';
+import { diffReports } from './diff';
+import { CrawlConfig, parseCrawlConfig } from './crawlScope';
+import { deleteScreenshots, screenshotDirFor, screenshotPath } from './screenshots';
+import { parseVisualConfig, VisualConfig } from './visualDiff';
+import { PageBudgets, parseBudgets } from './pageWeight';
+import { Issue, ruleIdOf, ScoreReport } from './scorer';
+import { renderReportHtml, renderReportPdf, reportFileName } from './reportExport';
+import { EXPORT_FORMATS, isExportFormat, toCsv, toJsonExport, toJunit, toSarif } from './exportFormats';
+import { buildPayload, detectRegression, parseWebhooks, postWebhook, RETRY_DELAYS, signPayload, SIGNATURE_HEADER, WebhookConfig } from './webhooks';
+import { SqliteWebhookRepository, WebhookDelivery } from './webhookStore';
+import { parseScoringProfile, SCORING_PROFILES, scoringProfile } from './scoringProfiles';
+import { applyTriage, createTriageMatcher, parseIgnoreRule, parseTriageRequest, TriageMatcher, TriageRequest } from './triage';
+import { SqliteTriageRepository } from './triageStore';
 
 const app = express();
 const httpServer = createServer(app);
 const io = new Server(httpServer, {
     cors: {
         origin: ["http://localhost:5173", "https://zapmysite.com"],
-        methods: ["GET", "POST"]
+        methods: ["GET", "POST", "DELETE"]
     }
 });
 
-import type { ScoreReport } from './scorer'; // We need to import this or define it. Ideally import.
-// To avoid circular dependency or issues, let's just use 'any' for report temporarily or move types to shared file.
-// Actually, let's just assume ScoreReport is correct.
-
-interface ScanState {
-    id: string;
-    url: string;
-    devices?: string[];
-    pageLimit?: number;
-    status: 'IDLE' | 'QUEUED' | 'SCANNING' | 'COMPLETE' | 'FAILED';
-    progress: number;
-    message: string;
-    report: any | null;
-    timestamp: number;
-    queuePosition?: number;
-    estimatedWaitTime?: number;
-}
-
-const scans = new Map<string, ScanState>();
+const db = openDatabase();
+const scans = new SqliteScanRepository(db);
+const baselines = new SqliteBaselineRepository(db);
+const schedules = new SqliteScheduleRepository(db);
+const webhooks = new SqliteWebhookRepository(db);
+const triage = new SqliteTriageRepository(db);
 const scanQueue: string[] = [];
 const MAX_CONCURRENT_SCANS = 3;
 let activeScans = 0;
 
+// One controller per running scan so it can be aborted mid-crawl
+const scanControllers = new Map<string, AbortController>();
+
+// Credentials only ever live in memory and are dropped as soon as the scan ends
+const scanCredentials = new Map<string, AuthConfig>();
+
+// Finished scans are kept for this many days, 0 keeps them forever
+const SCAN_RETENTION_DAYS = Number(process.env.SCAN_RETENTION_DAYS ?? 30);
+const RETENTION_SWEEP_INTERVAL = 60 * 60 * 1000; // hourly
+
+// Cron has minute resolution, checking twice a minute keeps runs close to their slot
+const SCHEDULER_INTERVAL = 30 * 1000;
+const WEBHOOK_DISPATCH_INTERVAL = 10 * 1000;
+const MAX_DELIVERY_LOG = 200;
+
 // Track scan durations for wait time estimation
 const scanDurations: number[] = [];
 const MAX_DURATION_SAMPLES = 10;
@@ -59,8 +81,7 @@ function updateQueuePositions() {
             const position = Math.max(1, index - (MAX_CONCURRENT_SCANS - 1));
             const estimatedWait = Math.round((position * avgDuration) / (MAX_CONCURRENT_SCANS * 1000)); // in seconds
 
-            scans.set(scanId, {
-                ...scan,
+            scans.update(scanId, {
                 queuePosition: position,
                 estimatedWaitTime: estimatedWait
             });
@@ -75,6 +96,103 @@ function updateQueuePositions() {
     });
 }
 
+interface ScanRequest {
+    url: string;
+    devices: string[];
+    pageLimit: number;
+    crawl?: CrawlConfig;
+    auth?: AuthConfig;
+    lighthouse?: boolean;
+    visual?: VisualConfig;
+    budgets?: PageBudgets;
+    webhooks?: WebhookConfig[];
+    scheduleId?: string;
+    scoringProfile?: string;
+}
+
+// Scan ids are creation timestamps, bumped when two scans start in the same millisecond
+function newScanId(): string {
+    let id = Date.now();
+    while (scans.get(id.toString())) id++;
+    return id.toString();
+}
+
+// Shared by the scan API and the scheduler
+function enqueueScan(request: ScanRequest) {
+    const scanId = newScanId();
+
+    // Check if scan can start immediately or needs to be queued
+    const willStartImmediately = activeScans < MAX_CONCURRENT_SCANS;
+    const queuePosition = willStartImmediately ? undefined : Math.max(1, scanQueue.length + 1 - activeScans);
+    const avgDuration = getAverageScanDuration();
+    const estimatedWait = willStartImmediately ? undefined : Math.round(((queuePosition || 1) * avgDuration) / (MAX_CONCURRENT_SCANS * 1000));
+
+    scans.create({
+        id: scanId,
+        url: request.url,
+        devices: request.devices,
+        pageLimit: request.pageLimit,
+        crawl: request.crawl,
+        authMethods: authMethods(request.auth),
+        lighthouse: request.lighthouse,
+        visual: request.visual,
+        budgets: request.budgets,
+        scheduleId: request.scheduleId,
+        scoringProfile: request.scoringProfile,
+        status: willStartImmediately ? 'SCANNING' : 'QUEUED',
+        progress: 0,
+        message: willStartImmediately ? 'Starting scan...' : 'Waiting in queue...',
+        report: null,
+        timestamp: Date.now(),
+        queuePosition: willStartImmediately ? undefined : queuePosition,
+        estimatedWaitTime: willStartImmediately ? undefined : estimatedWait
+    });
+
+    if (request.auth) {
+        scanCredentials.set(scanId, request.auth);
+    }
+    if (request.webhooks?.length) {
+        webhooks.register({ scanId }, request.webhooks);
+    }
+    scanQueue.push(scanId);
+
+    // Try to process queue immediately
+    processQueue();
+
+    return { scanId, willStartImmediately, queuePosition, estimatedWait };
+}
+
+// Due schedules enqueue a scan, unless their previous run is still waiting or running
+// Runs from a timer, so a failing schedule is logged and the others still run
+function runDueSchedules() {
+    const now = Date.now();
+    let due: ScanSchedule[];
+    try {
+        due = schedules.listDue(now);
+    } catch (err) {
+        console.error('Could not load due schedules:', err);
+        return;
+    }
+
+    for (const schedule of due) {
+        try {
+            const nextRunAt = nextRun(parseCron(schedule.cron), new Date(now))?.getTime() ?? null;
+            const previous = schedule.lastScanId ? scans.get(schedule.lastScanId) : undefined;
+            if (previous && (previous.status === 'QUEUED' || previous.status === 'SCANNING')) {
+                console.log(`Schedule ${schedule.id} skipped, scan ${previous.id} is still in progress`);
+                schedules.update(schedule.id, { nextRunAt });
+                continue;
+            }
+
+            const { scanId } = enqueueScan({ url: schedule.url, devices: schedule.devices, pageLimit: schedule.pageLimit, scheduleId: schedule.id, scoringProfile: schedule.scoringProfile });
+            console.log(`[${scanId}] Scheduled scan for ${schedule.url} (schedule ${schedule.id})`);
+            schedules.update(schedule.id, { lastRunAt: now, lastScanId: scanId, nextRunAt });
+        } catch (err) {
+            console.error(`Schedule ${schedule.id} failed to run:`, err);
+        }
+    }
+}
+
 // Main queue processing loop
 async function processQueue() {
     // Process multiple scans concurrently up to MAX_CONCURRENT_SCANS
@@ -83,7 +201,7 @@ async function processQueue() {
         if (!scanId) break;
 
         const scanState = scans.get(scanId);
-        if (!scanState) {
+        if (!scanState || scanState.status === 'CANCELLED') {
             continue;
         }
 
@@ -96,12 +214,11 @@ async function processQueue() {
         // Use an IIFE with proper closure to capture scanId and scanState
         ((currentScanId, currentScanState) => {
             const scanStartTime = Date.now();
+            const controller = new AbortController();
+            scanControllers.set(currentScanId, controller);
 
             const updateState = (update: Partial<ScanState>) => {
-                const current = scans.get(currentScanId);
-                if (current) {
-                    scans.set(currentScanId, { ...current, ...update });
-                }
+                scans.update(currentScanId, update);
             };
 
             updateState({ status: 'SCANNING', message: 'Starting scan...', progress: 0 });
@@ -109,9 +226,35 @@ async function processQueue() {
 
             console.log(`[${currentScanId}] Starting scan for ${currentScanState.url}`);
 
+            const onProgress = (message: string, progress: number) => {
+                io.to(currentScanId).emit('scan:progress', { scanId: currentScanId, message, progress });
+                updateState({ message, progress, status: 'SCANNING' });
+            };
+
+            const profile = scoringProfile(currentScanState.scoringProfile);
+
             // Execute the scan
-            runScan(currentScanState.url, currentScanId, io, updateState, currentScanState.devices || [], currentScanState.pageLimit || 20)
-                .then(() => {
+            runScan(currentScanState.url, {
+                devices: currentScanState.devices,
+                pageLimit: currentScanState.pageLimit,
+                crawl: currentScanState.crawl,
+                auth: scanCredentials.get(currentScanId),
+                lighthouse: currentScanState.lighthouse,
+                screenshotDir: screenshotDirFor(currentScanId),
+                visual: currentScanState.visual,
+                budgets: currentScanState.budgets,
+                baselineFor: (url, device) => baselines.find(url, device),
+                scoringProfile: profile,
+                signal: controller.signal
+            }, onProgress)
+                .then((scanned) => {
+                    // Earlier triage of the site carries over to every new scan
+                    const report = applyTriage(scanned, triageMatcherFor(currentScanState.url), profile);
+                    io.to(currentScanId).emit('scan:complete', { scanId: currentScanId, report });
+                    updateState({ status: 'COMPLETE', report, progress: 100, message: 'Scan Complete' });
+                    seedBaselines(currentScanId, currentScanState.timestamp, report);
+                    notifyWebhooks(currentScanId);
+
                     console.log(`[${currentScanId}] Scan completed successfully`);
                     // Track scan duration
                     const scanDuration = Date.now() - scanStartTime;
@@ -121,11 +264,28 @@ async function processQueue() {
                     }
                 })
                 .catch((err) => {
+                    if (controller.signal.aborted) {
+                        console.log(`[${currentScanId}] Scan cancelled`);
+                        markCancelled(currentScanId);
+                        return;
+                    }
+                    // A failed scan has no report to show its screenshots in
+                    deleteScreenshots(currentScanId);
+                    if (err instanceof AuthError) {
+                        console.error(`[${currentScanId}] Scan failed to authenticate`);
+                        updateState({ status: 'FAILED', message: err.message });
+                        io.to(currentScanId).emit('scan:error', { message: err.message });
+                        notifyWebhooks(currentScanId);
+                        return;
+                    }
                     console.error(`[${currentScanId}] Scan failed:`, err);
                     updateState({ status: 'FAILED', message: 'Scan failed due to server error.' });
                     io.to(currentScanId).emit('scan:error', { message: 'Internal Server Error' });
+                    notifyWebhooks(currentScanId);
                 })
                 .finally(() => {
+                    scanControllers.delete(currentScanId);
+                    scanCredentials.delete(currentScanId);
                     activeScans--;
                     processQueue();
                 });
@@ -133,8 +293,175 @@ async function processQueue() {
     }
 }
 
+// The first capture of a URL and device becomes its baseline, later ones are only compared
+function seedBaselines(scanId: string, timestamp: number, report: ScoreReport) {
+    for (const page of report.pages) {
+        for (const shot of page.screenshots || []) {
+            if (baselines.find(page.url, shot.device)) continue;
+            const file = screenshotPath(scanId, shot.file);
+            if (!file) continue;
+            try {
+                baselines.accept(page.url, shot.device, scanId, timestamp, file);
+            } catch (err) {
+                console.error(`[${scanId}] Failed to store baseline for ${page.url} (${shot.device}):`, err);
+            }
+        }
+    }
+}
+
+function triageMatcherFor(url: string): TriageMatcher {
+    const host = hostOf(url);
+    return createTriageMatcher(triage.listDecisions(host), triage.listRules(host));
+}
+
+// Queues one delivery per interested webhook, dispatchWebhooks does the sending
+function notifyWebhooks(scanId: string) {
+    const scan = scans.get(scanId);
+    if (!scan || (scan.status !== 'COMPLETE' && scan.status !== 'FAILED')) return;
+    const event = scan.status;
+
+    const hooks = webhooks.listForScan(scan.id, scan.scheduleId).filter(hook => hook.events.includes(event));
+    if (hooks.length === 0) return;
+
+    const regression = scan.report ? detectRegression(scans.previousComplete(scan.url, scan.timestamp), scan.report) : null;
+    const now = Date.now();
+    for (const hook of hooks) {
+        if (event === 'COMPLETE' && hook.regressionsOnly && !regression?.regressed) continue;
+
+        const deliveryId = crypto.randomUUID();
+        webhooks.createDelivery({
+            id: deliveryId,
+            webhookId: hook.id,
+            scanId: scan.id,
+            event,
+            url: hook.url,
+            payload: JSON.stringify(buildPayload(deliveryId, scan, regression)),
+            status: 'pending',
+            attempts: 0,
+            nextAttemptAt: now,
+            createdAt: now,
+            updatedAt: now
+        });
+    }
+    dispatchWebhooks();
+}
+
+async function deliverWebhook(delivery: WebhookDelivery) {
+    const hook = webhooks.get(delivery.webhookId);
+    if (!hook) return;
+
+    const attempts = delivery.attempts + 1;
+    // Signed per attempt so receivers can reject stale timestamps
+    const timestamp = Math.floor(Date.now() / 1000);
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+    try {
+        responseStatus = await postWebhook(delivery.url, delivery.payload, {
+            [SIGNATURE_HEADER]: signPayload(hook.secret, timestamp, delivery.payload),
+            'X-WebsiteCheck-Timestamp': timestamp.toString(),
+            'X-WebsiteCheck-Event': delivery.event === 'COMPLETE' ? 'scan.complete' : 'scan.failed',
+            'X-WebsiteCheck-Delivery': delivery.id
+        });
+        if (responseStatus >= 200 && responseStatus < 300) {
+            webhooks.updateDelivery(delivery.id, { status: 'delivered', attempts, responseStatus, error: undefined, nextAttemptAt: undefined, updatedAt: Date.now() });
+            return;
+        }
+        error = `Receiver responded with status ${responseStatus}`;
+    } catch (err) {
+        error = (err as Error).message;
+    }
+
+    const retryDelay = RETRY_DELAYS[attempts - 1];
+    if (retryDelay === undefined) {
+        console.error(`[${delivery.scanId}] Webhook delivery ${delivery.id} to ${delivery.url} failed after ${attempts} attempts: ${error}`);
+    }
+    webhooks.updateDelivery(delivery.id, {
+        status: retryDelay === undefined ? 'failed' : 'pending',
+        attempts,
+        responseStatus,
+        error,
+        nextAttemptAt: retryDelay === undefined ? undefined : Date.now() + retryDelay,
+        updatedAt: Date.now()
+    });
+}
+
+// Deliveries go out one at a time, a tick that finds the previous one still busy is skipped
+let dispatchingWebhooks = false;
+async function dispatchWebhooks() {
+    if (dispatchingWebhooks) return;
+    dispatchingWebhooks = true;
+    try {
+        for (const delivery of webhooks.dueDeliveries(Date.now())) {
+            await deliverWebhook(delivery);
+        }
+    } catch (err) {
+        console.error('Webhook dispatch failed:', err);
+    } finally {
+        dispatchingWebhooks = false;
+    }
+}
+
+function markCancelled(scanId: string) {
+    deleteScreenshots(scanId);
+    scans.update(scanId, { status: 'CANCELLED', message: 'Scan cancelled.', queuePosition: undefined, estimatedWaitTime: undefined });
+    io.to(scanId).emit('scan:cancelled', { scanId });
+}
+
+// Queued scans are simply dropped from the line, running ones are aborted and
+// marked cancelled once runScan has torn down its browser.
+function cancelScan(scanId: string): 'cancelled' | 'not_found' | 'finished' {
+    const scan = scans.get(scanId);
+    if (!scan) return 'not_found';
+
+    const queueIndex = scanQueue.indexOf(scanId);
+    if (queueIndex !== -1) {
+        scanQueue.splice(queueIndex, 1);
+        scanCredentials.delete(scanId);
+        markCancelled(scanId);
+        updateQueuePositions();
+        return 'cancelled';
+    }
+
+    const controller = scanControllers.get(scanId);
+    if (controller) {
+        controller.abort();
+        return 'cancelled';
+    }
+
+    return 'finished';
+}
+
+function purgeExpiredScans() {
+    if (!(SCAN_RETENTION_DAYS > 0)) return;
+
+    const cutoff = Date.now() - SCAN_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    const removed = scans.purgeOlderThan(cutoff);
+    removed.forEach(deleteScreenshots);
+    if (removed.length > 0) {
+        console.log(`Purged ${removed.length} scans older than ${SCAN_RETENTION_DAYS} days`);
+    }
+}
+
+// Scans that were running when the process died cannot be resumed, queued ones simply go back in line
+function restoreQueue() {
+    for (const scan of scans.listByStatus('SCANNING')) {
+        scans.update(scan.id, { status: 'FAILED', message: 'Scan was interrupted by a server restart.' });
+        deleteScreenshots(scan.id);
+        notifyWebhooks(scan.id);
+    }
+    for (const scan of scans.listByStatus('QUEUED')) {
+        if (scan.authMethods?.length) {
+            scans.update(scan.id, { status: 'FAILED', message: 'Credentials are not kept across server restarts, please start the scan again.' });
+            notifyWebhooks(scan.id);
+            continue;
+        }
+        scanQueue.push(scan.id);
+    }
+}
+
 app.use(cors());
-app.use(express.json());
+// Storage states pasted for authenticated scans can be sizeable
+app.use(express.json({ limit: '1mb' }));
 
 app.get('/', (req, res) => {
     res.status(200).json({
@@ -145,7 +472,7 @@ app.get('/', (req, res) => {
 });
 
 app.post('/api/scan', async (req, res) => {
-    const { url, devices, pageLimit } = req.body;
+    const { url, devices, pageLimit, crawl, auth, lighthouse, visual, budgets, scoringProfile: profileInput, webhooks: webhookInput } = req.body;
     if (!url) {
         return res.status(400).json({ error: 'URL is required' });
     }
@@ -153,34 +480,44 @@ app.post('/api/scan', async (req, res) => {
     if (!devices || !Array.isArray(devices) || devices.length === 0) {
         return res.status(400).json({ error: 'At least one device must be selected' });
     }
+    if (!devices.every(isDeviceId)) {
+        return res.status(400).json({ error: `devices must be among ${Object.keys(DEVICE_MAP).join(', ')}` });
+    }
+    // Boolean("false") would start a slow Lighthouse run nobody asked for
+    if (lighthouse !== undefined && typeof lighthouse !== 'boolean') {
+        return res.status(400).json({ error: 'lighthouse must be true or false' });
+    }
 
-    const scanId = Date.now().toString();
-
-    // Check if scan can start immediately or needs to be queued
-    const willStartImmediately = activeScans < MAX_CONCURRENT_SCANS;
-    const queuePosition = willStartImmediately ? undefined : Math.max(1, scanQueue.length + 1 - activeScans);
-    const avgDuration = getAverageScanDuration();
-    const estimatedWait = willStartImmediately ? undefined : Math.round(((queuePosition || 1) * avgDuration) / (MAX_CONCURRENT_SCANS * 1000));
+    let crawlConfig: CrawlConfig;
+    let authConfig: AuthConfig | undefined;
+    let visualConfig: VisualConfig;
+    let pageBudgets: PageBudgets | undefined;
+    let profileName: string;
+    let webhookConfigs: WebhookConfig[];
+    try {
+        crawlConfig = parseCrawlConfig(crawl);
+        authConfig = parseAuthConfig(auth);
+        visualConfig = parseVisualConfig(visual);
+        pageBudgets = parseBudgets(budgets);
+        profileName = parseScoringProfile(profileInput);
+        webhookConfigs = parseWebhooks(webhookInput);
+    } catch (err) {
+        return res.status(400).json({ error: (err as Error).message });
+    }
 
-    scans.set(scanId, {
-        id: scanId,
+    const { scanId, willStartImmediately, queuePosition, estimatedWait } = enqueueScan({
         url,
         devices,
         pageLimit: pageLimit || 20, // Default to 20 if not provided
-        status: willStartImmediately ? 'SCANNING' : 'QUEUED',
-        progress: 0,
-        message: willStartImmediately ? 'Starting scan...' : 'Waiting in queue...',
-        report: null,
-        timestamp: Date.now(),
-        queuePosition: willStartImmediately ? undefined : queuePosition,
-        estimatedWaitTime: willStartImmediately ? undefined : estimatedWait
+        crawl: crawlConfig,
+        auth: authConfig,
+        lighthouse: lighthouse === true,
+        visual: visualConfig,
+        budgets: pageBudgets,
+        scoringProfile: profileName,
+        webhooks: webhookConfigs
     });
 
-    scanQueue.push(scanId);
-
-    // Try to process queue immediately
-    processQueue();
-
     res.json({
         message: willStartImmediately ? 'Scan starting' : 'Scan queued',
         scanId,
@@ -198,6 +535,355 @@ app.get('/api/scan/:scanId', (req, res) => {
     res.json(scan);
 });
 
+app.delete('/api/scan/:scanId', (req, res) => {
+    const result = cancelScan(req.params.scanId);
+    if (result === 'not_found') {
+        return res.status(404).json({ error: 'Scan not found' });
+    }
+    if (result === 'finished') {
+        return res.status(409).json({ error: 'Scan has already finished' });
+    }
+    res.json({ message: 'Scan cancelled', scanId: req.params.scanId });
+});
+
+app.get('/api/scan/:scanId/screenshots/:file', (req, res) => {
+    const { scanId, file } = req.params;
+    if (!scans.get(scanId)) {
+        return res.status(404).json({ error: 'Scan not found' });
+    }
+
+    const filePath = screenshotPath(scanId, file);
+    if (!filePath) {
+        return res.status(400).json({ error: 'Invalid screenshot name' });
+    }
+    res.sendFile(filePath, { maxAge: '1d' }, (err) => {
+        if (err && !res.headersSent) {
+            res.status(404).json({ error: 'Screenshot not found' });
+        }
+    });
+});
+
+app.get('/api/scan/:scanId/report.:format', async (req, res) => {
+    const { scanId, format } = req.params;
+    if (format !== 'html' && format !== 'pdf') {
+        return res.status(400).json({ error: 'Report format must be html or pdf' });
+    }
+
+    const scan = scans.get(scanId);
+    if (!scan) {
+        return res.status(404).json({ error: 'Scan not found' });
+    }
+    if (scan.status !== 'COMPLETE' || !scan.report) {
+        return res.status(409).json({ error: 'Scan has not completed' });
+    }
+
+    res.attachment(reportFileName(scan, format));
+    if (format === 'html') {
+        return res.type('html').send(renderReportHtml(scan, scan.report));
+    }
+
+    try {
+        res.type('pdf').send(await renderReportPdf(scan, scan.report));
+    } catch (err) {
+        console.error(`[${scanId}] PDF export failed:`, err);
+        res.removeHeader('Content-Disposition');
+        res.status(500).json({ error: 'Failed to render PDF' });
+    }
+});
+
+app.get('/api/scan/:scanId/export', (req, res) => {
+    const { scanId } = req.params;
+    const format = req.query.format || 'json';
+    if (!isExportFormat(format)) {
+        return res.status(400).json({ error: `Export format must be one of ${Object.keys(EXPORT_FORMATS).join(', ')}` });
+    }
+
+    const scan = scans.get(scanId);
+    if (!scan) {
+        return res.status(404).json({ error: 'Scan not found' });
+    }
+    if (scan.status !== 'COMPLETE' || !scan.report) {
+        return res.status(409).json({ error: 'Scan has not completed' });
+    }
+
+    const body = {
+        json: () => toJsonExport(scan, scan.report!),
+        csv: () => toCsv(scan.report!),
+        sarif: () => toSarif(scan, scan.report!),
+        junit: () => toJunit(scan, scan.report!)
+    }[format]();
+
+    res.attachment(reportFileName(scan, EXPORT_FORMATS[format].extension));
+    res.type(EXPORT_FORMATS[format].contentType).send(body);
+});
+
+// Makes this scan's screenshot the reference that later scans of the same page are compared against
+app.post('/api/scan/:scanId/baselines', (req, res) => {
+    const { scanId } = req.params;
+    const { url, device } = req.body;
+    if (typeof url !== 'string' || typeof device !== 'string') {
+        return res.status(400).json({ error: 'Both url and device are required' });
+    }
+
+    const scan = scans.get(scanId);
+    if (!scan) {
+        return res.status(404).json({ error: 'Scan not found' });
+    }
+    if (scan.status !== 'COMPLETE' || !scan.report) {
+        return res.status(409).json({ error: 'Scan has not completed' });
+    }
+
+    const shot = scan.report.pages.find(page => page.url === url)?.screenshots?.find(s => s.device === device);
+    const file = shot && screenshotPath(scanId, shot.file);
+    if (!file) {
+        return res.status(404).json({ error: 'Screenshot not found' });
+    }
+
+    try {
+        const baseline = baselines.accept(url, device, scanId, scan.timestamp, file);
+        res.json({ url, device, scanId: baseline.scanId, timestamp: baseline.timestamp });
+    } catch (err) {
+        console.error(`[${scanId}] Failed to accept baseline:`, err);
+        res.status(404).json({ error: 'Screenshot not found' });
+    }
+});
+
+// Re-applies the site's current decisions and ignore rules to a finished scan and stores the result
+function retriageScan(scan: ScanState, report: ScoreReport): ScoreReport {
+    const triaged = applyTriage(report, triageMatcherFor(scan.url), scoringProfile(scan.scoringProfile));
+    scans.update(scan.id, { report: triaged });
+    return triaged;
+}
+
+app.post('/api/scan/:scanId/triage', (req, res) => {
+    const { scanId } = req.params;
+    let request: TriageRequest;
+    try {
+        request = parseTriageRequest(req.body);
+    } catch (err) {
+        return res.status(400).json({ error: (err as Error).message });
+    }
+
+    const scan = scans.get(scanId);
+    if (!scan) {
+        return res.status(404).json({ error: 'Scan not found' });
+    }
+    if (scan.status !== 'COMPLETE' || !scan.report) {
+        return res.status(409).json({ error: 'Scan has not completed' });
+    }
+
+    const byFingerprint = new Map<string, Issue>();
+    for (const issue of scan.report.details) {
+        if (issue.fingerprint) byFingerprint.set(issue.fingerprint, issue);
+    }
+    if (request.fingerprints.some(fingerprint => !byFingerprint.has(fingerprint))) {
+        return res.status(404).json({ error: 'Issue not found in this scan' });
+    }
+
+    const host = hostOf(scan.url);
+    const now = Date.now();
+    for (const fingerprint of request.fingerprints) {
+        if (request.status === 'open') {
+            triage.deleteDecision(host, fingerprint);
+            continue;
+        }
+        const issue = byFingerprint.get(fingerprint)!;
+        triage.saveDecision({
+            host,
+            fingerprint,
+            status: request.status,
+            note: request.note,
+            ruleId: ruleIdOf(issue),
+            title: issue.title,
+            affectedUrl: issue.affectedUrl,
+            createdAt: now,
+            updatedAt: now
+        });
+    }
+
+    res.json({ report: retriageScan(scan, scan.report) });
+});
+
+app.post('/api/scan/:scanId/retriage', (req, res) => {
+    const scan = scans.get(req.params.scanId);
+    if (!scan) {
+        return res.status(404).json({ error: 'Scan not found' });
+    }
+    if (scan.status !== 'COMPLETE' || !scan.report) {
+        return res.status(409).json({ error: 'Scan has not completed' });
+    }
+    res.json({ report: retriageScan(scan, scan.report) });
+});
+
+app.get('/api/sites/:host/triage', (req, res) => {
+    const host = req.params.host.toLowerCase();
+    res.json({ host, decisions: triage.listDecisions(host), rules: triage.listRules(host) });
+});
+
+app.post('/api/sites/:host/ignore-rules', (req, res) => {
+    let input: ReturnType<typeof parseIgnoreRule>;
+    try {
+        input = parseIgnoreRule(req.body);
+    } catch (err) {
+        return res.status(400).json({ error: (err as Error).message });
+    }
+
+    const rule = { ...input, id: crypto.randomUUID(), host: req.params.host.toLowerCase(), createdAt: Date.now() };
+    triage.createRule(rule);
+    res.json(rule);
+});
+
+app.delete('/api/sites/:host/ignore-rules/:ruleId', (req, res) => {
+    if (!triage.deleteRule(req.params.host.toLowerCase(), req.params.ruleId)) {
+        return res.status(404).json({ error: 'Ignore rule not found' });
+    }
+    res.json({ message: 'Ignore rule deleted', ruleId: req.params.ruleId });
+});
+
+app.get('/api/scoring-profiles', (req, res) => {
+    res.json({ profiles: Object.values(SCORING_PROFILES) });
+});
+
+app.get('/api/sites/:host/scans', (req, res) => {
+    const { host } = req.params;
+    const limit = Math.min(Math.max(Number(req.query.limit) || 30, 1), 200);
+    res.json({ host, scans: scans.listHistory(host.toLowerCase(), limit) });
+});
+
+app.get('/api/diff', (req, res) => {
+    const { base: baseId, head: headId } = req.query;
+    if (typeof baseId !== 'string' || typeof headId !== 'string') {
+        return res.status(400).json({ error: 'Both base and head scan IDs are required' });
+    }
+
+    const base = scans.get(baseId);
+    const head = scans.get(headId);
+    if (!base || !head) {
+        return res.status(404).json({ error: 'Scan not found' });
+    }
+    if (!base.report || !head.report) {
+        return res.status(409).json({ error: 'Both scans must be complete to compare them' });
+    }
+
+    res.json({
+        base: { id: base.id, url: base.url, timestamp: base.timestamp },
+        head: { id: head.id, url: head.url, timestamp: head.timestamp },
+        diff: diffReports(base.report, head.report)
+    });
+});
+
+const MAX_SCHEDULE_PAGE_LIMIT = 100;
+
+function scheduleResponse(schedule: ScanSchedule) {
+    const lastScan = schedule.lastScanId ? scans.get(schedule.lastScanId) : undefined;
+    return {
+        ...schedule,
+        lastScan: lastScan && {
+            id: lastScan.id,
+            status: lastScan.status,
+            timestamp: lastScan.timestamp,
+            overallScore: lastScan.report?.overallScore
+        },
+        webhooks: webhooks.listForSchedule(schedule.id)
+    };
+}
+
+app.get('/api/schedules', (req, res) => {
+    res.json({ schedules: schedules.list().map(scheduleResponse) });
+});
+
+app.post('/api/schedules', (req, res) => {
+    const { url, devices, pageLimit, cron, scoringProfile: profileInput, webhooks: webhookInput } = req.body;
+    try {
+        const parsed = new URL(url);
+        if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') throw new Error();
+    } catch {
+        return res.status(400).json({ error: 'A valid http(s) URL is required' });
+    }
+    if (!Array.isArray(devices) || devices.length === 0) {
+        return res.status(400).json({ error: 'At least one device must be selected' });
+    }
+    if (!devices.every(isDeviceId)) {
+        return res.status(400).json({ error: `devices must be among ${Object.keys(DEVICE_MAP).join(', ')}` });
+    }
+    const limit = pageLimit === undefined ? 20 : Number(pageLimit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SCHEDULE_PAGE_LIMIT) {
+        return res.status(400).json({ error: `pageLimit must be a whole number between 1 and ${MAX_SCHEDULE_PAGE_LIMIT}` });
+    }
+    if (typeof cron !== 'string') {
+        return res.status(400).json({ error: 'A cron expression is required' });
+    }
+
+    let profileName: string;
+    let webhookConfigs: WebhookConfig[];
+    try {
+        profileName = parseScoringProfile(profileInput);
+        webhookConfigs = parseWebhooks(webhookInput);
+    } catch (err) {
+        return res.status(400).json({ error: (err as Error).message });
+    }
+
+    let nextRunAt: number;
+    try {
+        const next = nextRun(parseCron(cron), new Date());
+        if (!next) {
+            return res.status(400).json({ error: 'Cron expression never matches a date' });
+        }
+        nextRunAt = next.getTime();
+    } catch (err) {
+        return res.status(400).json({ error: (err as Error).message });
+    }
+
+    const schedule: ScanSchedule = {
+        id: crypto.randomUUID(),
+        url,
+        devices,
+        pageLimit: limit,
+        cron: cron.trim(),
+        scoringProfile: profileName,
+        createdAt: Date.now(),
+        nextRunAt
+    };
+    schedules.create(schedule);
+    webhooks.register({ scheduleId: schedule.id }, webhookConfigs);
+    res.json(scheduleResponse(schedule));
+});
+
+app.delete('/api/schedules/:scheduleId', (req, res) => {
+    if (!schedules.delete(req.params.scheduleId)) {
+        return res.status(404).json({ error: 'Schedule not found' });
+    }
+    res.json({ message: 'Schedule deleted', scheduleId: req.params.scheduleId });
+});
+
+// Secrets stay server side, the payload is returned as sent
+function deliveryResponse(delivery: WebhookDelivery) {
+    return { ...delivery, payload: JSON.parse(delivery.payload) };
+}
+
+function deliveryLimit(raw: unknown): number {
+    const limit = Number(raw);
+    return Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_DELIVERY_LOG) : 50;
+}
+
+app.get('/api/scan/:scanId/webhooks/deliveries', (req, res) => {
+    const { scanId } = req.params;
+    if (!scans.get(scanId)) {
+        return res.status(404).json({ error: 'Scan not found' });
+    }
+    const deliveries = webhooks.listDeliveries({ scanId }, deliveryLimit(req.query.limit));
+    res.json({ deliveries: deliveries.map(deliveryResponse) });
+});
+
+app.get('/api/schedules/:scheduleId/webhooks/deliveries', (req, res) => {
+    const { scheduleId } = req.params;
+    if (!schedules.get(scheduleId)) {
+        return res.status(404).json({ error: 'Schedule not found' });
+    }
+    const deliveries = webhooks.listDeliveries({ scheduleId }, deliveryLimit(req.query.limit));
+    res.json({ deliveries: deliveries.map(deliveryResponse) });
+});
+
 io.on('connection', (socket) => {
     console.log('Client connected', socket.id);
 
@@ -221,13 +907,28 @@ io.on('connection', (socket) => {
                 }
             } else if (scan.status === 'COMPLETE') {
                 socket.emit('scan:complete', { scanId, report: scan.report });
+            } else if (scan.status === 'CANCELLED') {
+                socket.emit('scan:cancelled', { scanId });
             }
         }
     });
+
+    socket.on('scan:cancel', (scanId) => {
+        console.log(`Socket ${socket.id} cancelling scan ${scanId}`);
+        cancelScan(scanId);
+    });
 });
 
 const PORT = Number(process.env.PORT) || 3000;
 
+restoreQueue();
+purgeExpiredScans();
+setInterval(purgeExpiredScans, RETENTION_SWEEP_INTERVAL).unref();
+setInterval(runDueSchedules, SCHEDULER_INTERVAL).unref();
+setInterval(dispatchWebhooks, WEBHOOK_DISPATCH_INTERVAL).unref();
+
 httpServer.listen(PORT, () => {
     console.log(`Server running on port ${PORT}`);
+    processQueue();
 });
+
@@ -0,0 +1,198 @@
+import { APIRequestContext, Browser } from 'playwright';
+import type { RequestContextFor } from './auth';
+import { gunzipSync } from 'zlib';
+
+export const DEFAULT_USER_AGENT = process.env.CRAWLER_USER_AGENT || 'WebsiteCheckBot';
+
+// The browser's own user agent with the product token appended: pages render as they do for visitors,
+// and the site's logs and bot rules can still tell the crawler apart
+export async function crawlerUserAgent(browser: Browser, token: string = DEFAULT_USER_AGENT): Promise<string> {
+    const page = await browser.newPage();
+    try {
+        return `${await page.evaluate(() => navigator.userAgent)} ${token}`;
+    } finally {
+        await page.close();
+    }
+}
+
+const MAX_SITEMAPS = 20;
+const MAX_SITEMAP_URLS = 1000;
+// The sitemap protocol's own limit, also what keeps a gzip bomb from filling the memory
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+const MAX_CRAWL_DELAY = 30; // seconds, robots.txt can ask for anything
+
+interface RobotsRule {
+    allow: boolean;
+    pattern: RegExp;
+    length: number;
+}
+
+export interface RobotsTxt {
+    rules: RobotsRule[];
+    crawlDelay?: number;
+    sitemaps: string[];
+}
+
+export interface SitemapResult {
+    urls: string[];
+    // Sitemaps that could not be fetched or parsed, with the reason
+    errors: { url: string; reason: string }[];
+    found: boolean;
+}
+
+function ruleToRegExp(path: string): RegExp {
+    const anchored = path.endsWith('$');
+    const body = (anchored ? path.slice(0, -1) : path)
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+// Picks the group for the most specific matching user agent, falling back to '*'
+export function parseRobotsTxt(content: string, userAgent: string = DEFAULT_USER_AGENT): RobotsTxt {
+    const agent = userAgent.toLowerCase();
+    const groups: { agents: string[]; lines: [string, string][] }[] = [];
+    const sitemaps: string[] = [];
+    let current: { agents: string[]; lines: [string, string][] } | null = null;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        const separator = line.indexOf(':');
+        if (separator === -1) continue;
+
+        const field = line.slice(0, separator).trim().toLowerCase();
+        const value = line.slice(separator + 1).trim();
+
+        if (field === 'sitemap') {
+            if (value) sitemaps.push(value);
+        } else if (field === 'user-agent') {
+            // Consecutive User-agent lines share one group
+            if (!current || current.lines.length > 0) {
+                current = { agents: [], lines: [] };
+                groups.push(current);
+            }
+            current.agents.push(value.toLowerCase());
+        } else if (current) {
+            current.lines.push([field, value]);
+        }
+    }
+
+    const matching = groups
+        .map(group => ({ group, match: group.agents.filter(a => a !== '*' && agent.includes(a)).sort((a, b) => b.length - a.length)[0] }))
+        .filter(entry => entry.match)
+        .sort((a, b) => b.match!.length - a.match!.length);
+    const selected = matching.length > 0
+        ? groups.filter(group => group.agents.includes(matching[0].match!))
+        : groups.filter(group => group.agents.includes('*'));
+
+    const rules: RobotsRule[] = [];
+    let crawlDelay: number | undefined;
+    for (const group of selected) {
+        for (const [field, value] of group.lines) {
+            if ((field === 'allow' || field === 'disallow') && value) {
+                rules.push({ allow: field === 'allow', pattern: ruleToRegExp(value), length: value.length });
+            } else if (field === 'crawl-delay') {
+                const delay = Number(value);
+                if (!Number.isNaN(delay) && delay > 0) crawlDelay = Math.min(delay, MAX_CRAWL_DELAY);
+            }
+        }
+    }
+
+    return { rules, crawlDelay, sitemaps };
+}
+
+// Longest matching rule wins, Allow wins a tie
+export function isAllowed(robots: RobotsTxt | null, url: string): boolean {
+    if (!robots) return true;
+
+    let path: string;
+    try {
+        const parsed = new URL(url);
+        path = parsed.pathname + parsed.search;
+    } catch {
+        return true;
+    }
+
+    let best: RobotsRule | null = null;
+    for (const rule of robots.rules) {
+        if (!rule.pattern.test(path)) continue;
+        if (!best || rule.length > best.length || (rule.length === best.length && rule.allow)) {
+            best = rule;
+        }
+    }
+    return best ? best.allow : true;
+}
+
+export async function fetchRobotsTxt(request: APIRequestContext, origin: string, userAgent?: string): Promise<RobotsTxt | null> {
+    try {
+        const response = await request.get(`${origin}/robots.txt`, { timeout: 10000, failOnStatusCode: false });
+        if (!response.ok()) return null;
+        return parseRobotsTxt(await response.text(), userAgent);
+    } catch {
+        return null;
+    }
+}
+
+function extractLocs(xml: string, tag: 'url' | 'sitemap'): string[] {
+    const blocks = xml.match(new RegExp(`<${tag}[\\s>][\\s\\S]*?</${tag}>`, 'gi')) || [];
+    return blocks
+        .map(block => block.match(/<loc>\s*(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?\s*<\/loc>/i)?.[1])
+        .filter((loc): loc is string => Boolean(loc))
+        .map(loc => loc.trim()
+            .replace(/&amp;/g, '&')
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&quot;/g, '"')
+            .replace(/&apos;/g, "'"));
+}
+
+// Follows sitemap indexes breadth-first, bounded so a huge site cannot stall the scan
+export async function loadSitemaps(requestFor: RequestContextFor, sitemapUrls: string[]): Promise<SitemapResult> {
+    const result: SitemapResult = { urls: [], errors: [], found: false };
+    const queue = [...sitemapUrls];
+    const seen = new Set<string>();
+
+    while (queue.length > 0 && seen.size < MAX_SITEMAPS && result.urls.length < MAX_SITEMAP_URLS) {
+        const sitemapUrl = queue.shift()!;
+        if (seen.has(sitemapUrl)) continue;
+        seen.add(sitemapUrl);
+
+        try {
+            // Sitemaps may live on another host, which must not see the site's credentials
+            const response = await requestFor(sitemapUrl).get(sitemapUrl, { timeout: 15000, failOnStatusCode: false });
+            if (!response.ok()) {
+                result.errors.push({ url: sitemapUrl, reason: `returned status ${response.status()}` });
+                continue;
+            }
+
+            let body = await response.body();
+            // .xml.gz files are served as plain gzip, not with Content-Encoding
+            if (body[0] === 0x1f && body[1] === 0x8b) {
+                try {
+                    body = gunzipSync(body, { maxOutputLength: MAX_SITEMAP_BYTES });
+                } catch (err) {
+                    if ((err as NodeJS.ErrnoException).code !== 'ERR_BUFFER_TOO_LARGE') throw err;
+                    result.errors.push({ url: sitemapUrl, reason: `unpacks to more than ${MAX_SITEMAP_BYTES / (1024 * 1024)} MB, the sitemap size limit` });
+                    continue;
+                }
+            }
+            const xml = body.toString('utf8');
+
+            if (/<sitemapindex[\s>]/i.test(xml)) {
+                result.found = true;
+                queue.push(...extractLocs(xml, 'sitemap'));
+            } else if (/<urlset[\s>]/i.test(xml)) {
+                result.found = true;
+                result.urls.push(...extractLocs(xml, 'url'));
+            } else {
+                result.errors.push({ url: sitemapUrl, reason: 'is not a valid XML sitemap' });
+            }
+        } catch (err) {
+            result.errors.push({ url: sitemapUrl, reason: `could not be loaded (${(err as Error).message})` });
+        }
+    }
+
+    result.urls = Array.from(new Set(result.urls)).slice(0, MAX_SITEMAP_URLS);
+    return result;
+}
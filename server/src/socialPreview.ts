@@ -0,0 +1,197 @@
+import type { Page } from 'playwright';
+import type { RequestContextFor } from './auth';
+import type { Issue } from './scorer';
+
+// How the page would look when shared, built from the same tags the platforms read
+export interface SocialPreview {
+    title?: string;
+    description?: string;
+    image?: string;
+    imageWidth?: number;
+    imageHeight?: number;
+    siteName?: string;
+    domain: string;
+    // twitter:card, decides between a small thumbnail and a full-width image
+    card?: string;
+}
+
+export interface ImageInfo {
+    status: number | null;
+    contentType?: string;
+    width?: number;
+    height?: number;
+}
+
+export type ImageProbe = (url: string) => Promise<ImageInfo>;
+
+interface PageTags {
+    // og:* and twitter:* values by name, first occurrence wins like it does for the platforms
+    meta: Record<string, string>;
+    title: string;
+    description: string;
+}
+
+const REQUIRED_OG = ['og:title', 'og:type', 'og:image', 'og:url'];
+const TWITTER_CARDS = ['summary', 'summary_large_image', 'app', 'player'];
+const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+// Facebook ignores images below 200x200, large Twitter cards need at least 300x157
+const MIN_IMAGE = { width: 200, height: 200 };
+const MIN_LARGE_IMAGE = { width: 300, height: 157 };
+// Dimensions sit in the first bytes, only servers ignoring Range send more and then only this much is read
+const IMAGE_HEADER_RANGE = 'bytes=0-65535';
+const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+
+// Reads width and height from the file header, enough for the formats platforms accept
+function imageDimensions(buffer: Buffer): { width: number; height: number } | undefined {
+    if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+        return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+    }
+    if (buffer.length >= 10 && buffer.toString('ascii', 0, 3) === 'GIF') {
+        return { width: buffer.readUInt16LE(6), height: buffer.readUInt16LE(8) };
+    }
+    if (buffer.length >= 30 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+        const chunk = buffer.toString('ascii', 12, 16);
+        if (chunk === 'VP8X') return { width: buffer.readUIntLE(24, 3) + 1, height: buffer.readUIntLE(27, 3) + 1 };
+        if (chunk === 'VP8L') {
+            const bits = buffer.readUInt32LE(21);
+            return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+        }
+        if (chunk === 'VP8 ') return { width: buffer.readUInt16LE(26) & 0x3fff, height: buffer.readUInt16LE(28) & 0x3fff };
+    }
+    if (buffer.length >= 4 && buffer.readUInt16BE(0) === 0xffd8) {
+        // Walk the JPEG segments up to the start-of-frame marker
+        let offset = 2;
+        while (offset + 9 < buffer.length) {
+            if (buffer[offset] !== 0xff) return undefined;
+            const marker = buffer[offset + 1];
+            if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+                return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+            }
+            offset += 2 + buffer.readUInt16BE(offset + 2);
+        }
+    }
+    return undefined;
+}
+
+// Pages of one site usually share their share image, so each URL is fetched once per scan
+export function createImageProbe(requestFor: RequestContextFor): ImageProbe {
+    const cache = new Map<string, Promise<ImageInfo>>();
+    return url => {
+        let info = cache.get(url);
+        if (!info) {
+            info = (async () => {
+                try {
+                    const response = await requestFor(url).get(url, { timeout: 10000, failOnStatusCode: false, headers: { Range: IMAGE_HEADER_RANGE } });
+                    try {
+                        if (!response.ok()) return { status: response.status() };
+                        const headers = response.headers();
+                        const contentType = headers['content-type']?.split(';')[0].trim().toLowerCase();
+                        const length = Number(headers['content-length']);
+                        const readable = response.status() === 206 || (length > 0 && length <= MAX_IMAGE_BYTES);
+                        const dimensions = readable ? imageDimensions(await response.body()) : undefined;
+                        return { status: response.status(), contentType, ...dimensions };
+                    } finally {
+                        // The request context lives as long as the scan, undisposed bodies would pile up in it
+                        await response.dispose();
+                    }
+                } catch {
+                    return { status: null };
+                }
+            })();
+            cache.set(url, info);
+        }
+        return info;
+    };
+}
+
+export async function readSocialTags(page: Page): Promise<PageTags> {
+    return page.evaluate(() => {
+        const meta: Record<string, string> = {};
+        document.querySelectorAll('meta[property], meta[name]').forEach(el => {
+            const name = (el.getAttribute('property') || el.getAttribute('name') || '').toLowerCase();
+            const content = el.getAttribute('content');
+            if ((name.startsWith('og:') || name.startsWith('twitter:')) && content && !(name in meta)) {
+                meta[name] = content.trim();
+            }
+        });
+        return {
+            meta,
+            title: document.title,
+            description: document.querySelector('meta[name="description"]')?.getAttribute('content') || ''
+        };
+    });
+}
+
+function domainOf(url: string): string {
+    try {
+        return new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+        return url;
+    }
+}
+
+export async function auditSocialTags(tags: PageTags, url: string, probe: ImageProbe): Promise<{ preview: SocialPreview; issues: Issue[] }> {
+    const { meta } = tags;
+    const issues: Omit<Issue, 'affectedUrl'>[] = [];
+    const hasOpenGraph = Object.keys(meta).some(name => name.startsWith('og:'));
+
+    if (!hasOpenGraph) {
+        issues.push({ category: 'SEO', severity: 'Minor', title: 'Missing Open Graph Tags', description: 'The page has no Open Graph tags, so link previews on social networks and chat apps fall back to guesses.' });
+    } else {
+        const missing = REQUIRED_OG.filter(name => !meta[name]);
+        if (missing.length > 0) {
+            issues.push({ category: 'SEO', severity: 'Minor', title: 'Incomplete Open Graph Tags', description: `Required Open Graph tags are missing: ${missing.join(', ')}.` });
+        }
+    }
+
+    const card = meta['twitter:card'];
+    if (!card) {
+        issues.push({ category: 'SEO', severity: 'Suggestion', title: 'Missing Twitter Card', description: 'No twitter:card tag is set, X shows a plain link instead of a card.' });
+    } else if (!TWITTER_CARDS.includes(card)) {
+        issues.push({ category: 'SEO', severity: 'Minor', title: 'Invalid Twitter Card Type', description: `twitter:card is "${card}", expected one of ${TWITTER_CARDS.join(', ')}.` });
+    }
+
+    const rawImage = meta['og:image'] || meta['twitter:image'];
+    let image: string | undefined;
+    let info: ImageInfo | undefined;
+    if (rawImage) {
+        if (!/^https?:\/\//i.test(rawImage)) {
+            // Crawlers of the platforms do not resolve relative URLs
+            issues.push({ category: 'SEO', severity: 'Minor', title: 'Relative Social Image URL', description: `The share image "${rawImage}" is not an absolute URL, most platforms will not load it.` });
+        }
+        try {
+            image = new URL(rawImage, url).toString();
+        } catch {
+            image = undefined;
+        }
+    }
+
+    if (image) {
+        info = await probe(image);
+        const large = card === 'summary_large_image';
+        const min = large ? MIN_LARGE_IMAGE : MIN_IMAGE;
+        if (info.status === null || info.status >= 400) {
+            issues.push({ category: 'SEO', severity: 'Major', title: 'Social Image Unreachable', description: `The share image ${image} ${info.status === null ? 'could not be fetched' : `returned status ${info.status}`}, previews will show no image.` });
+        } else if (info.contentType && !SUPPORTED_IMAGE_TYPES.includes(info.contentType)) {
+            issues.push({ category: 'SEO', severity: 'Minor', title: 'Unsupported Social Image Format', description: `The share image ${image} is ${info.contentType}, use JPEG, PNG, GIF or WebP.` });
+        } else if (info.width !== undefined && info.height !== undefined && (info.width < min.width || info.height < min.height)) {
+            issues.push({ category: 'SEO', severity: 'Minor', title: 'Social Image Too Small', description: `The share image is ${info.width}x${info.height}px, at least ${min.width}x${min.height}px is needed${large ? ' for a large card' : ''} and 1200x630px looks best.` });
+        }
+    }
+
+    // The preview only shows an image the platforms would show too
+    const usable = info !== undefined && info.status !== null && info.status < 400 && (!info.contentType || SUPPORTED_IMAGE_TYPES.includes(info.contentType));
+    return {
+        preview: {
+            title: meta['og:title'] || meta['twitter:title'] || tags.title || undefined,
+            description: meta['og:description'] || meta['twitter:description'] || tags.description || undefined,
+            image: usable ? image : undefined,
+            imageWidth: usable ? info?.width : undefined,
+            imageHeight: usable ? info?.height : undefined,
+            siteName: meta['og:site_name'] || undefined,
+            domain: domainOf(meta['og:url'] || url),
+            card
+        },
+        issues: issues.map(issue => ({ ...issue, affectedUrl: url }))
+    };
+}
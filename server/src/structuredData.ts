@@ -0,0 +1,227 @@
+import type { Page } from 'playwright';
+import type { Issue } from './scorer';
+
+export type StructuredDataFormat = 'json-ld' | 'microdata' | 'rdfa';
+
+// Microdata and RDFa items are read into the same shape as JSON-LD, so one set of rules covers all three
+export interface StructuredItem {
+    format: StructuredDataFormat;
+    type: string;
+    data: Record<string, unknown>;
+}
+
+export interface StructuredDataResult {
+    items: StructuredItem[];
+    // JSON-LD blocks that are not valid JSON
+    parseErrors: string[];
+}
+
+interface TypeRule {
+    // Each entry lists alternatives, any one of them satisfies it
+    required: string[][];
+    recommended: string[];
+    // Problems the property lists cannot express, e.g. inside nested items
+    check?: (data: Record<string, unknown>) => string[];
+}
+
+const FORMAT_LABELS: Record<StructuredDataFormat, string> = {
+    'json-ld': 'JSON-LD',
+    microdata: 'Microdata',
+    rdfa: 'RDFa'
+};
+
+const ARTICLE: TypeRule = {
+    required: [['headline'], ['author'], ['datePublished']],
+    recommended: ['image', 'dateModified', 'publisher']
+};
+
+function asList(value: unknown): unknown[] {
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) ? value : [value];
+}
+
+function asObject(value: unknown): Record<string, unknown> | undefined {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : undefined;
+}
+
+function hasValue(value: unknown): boolean {
+    if (value === undefined || value === null) return false;
+    if (typeof value === 'string') return value.trim() !== '';
+    if (Array.isArray(value)) return value.some(hasValue);
+    return true;
+}
+
+const RULES: Record<string, TypeRule> = {
+    Article: ARTICLE,
+    NewsArticle: ARTICLE,
+    BlogPosting: ARTICLE,
+    Product: {
+        required: [['name'], ['offers', 'review', 'aggregateRating']],
+        recommended: ['image', 'description', 'brand', 'sku'],
+        check: data => asList(data.offers).flatMap(offer => {
+            const fields = asObject(offer);
+            if (!fields) return [];
+            // AggregateOffer carries a price range instead of a single price
+            const price = hasValue(fields.price) || hasValue(fields.lowPrice) || hasValue(asObject(fields.priceSpecification)?.price);
+            return [
+                ...(price ? [] : ['an offer has no price']),
+                ...(hasValue(fields.priceCurrency) || hasValue(asObject(fields.priceSpecification)?.priceCurrency) ? [] : ['an offer has no priceCurrency'])
+            ];
+        })
+    },
+    Organization: {
+        required: [['name']],
+        recommended: ['url', 'logo']
+    },
+    BreadcrumbList: {
+        required: [['itemListElement']],
+        recommended: [],
+        check: data => {
+            const elements = asList(data.itemListElement).map(asObject);
+            return elements.flatMap((element, index) => {
+                if (!element) return [`breadcrumb ${index + 1} is not a ListItem`];
+                const problems: string[] = [];
+                if (!hasValue(element.position)) problems.push(`breadcrumb ${index + 1} has no position`);
+                const item = asObject(element.item);
+                if (!hasValue(element.name) && !hasValue(item?.name)) problems.push(`breadcrumb ${index + 1} has no name`);
+                // The last crumb is the current page and may leave out its URL
+                if (index < elements.length - 1 && !hasValue(element.item)) problems.push(`breadcrumb ${index + 1} has no item URL`);
+                return problems;
+            });
+        }
+    },
+    FAQPage: {
+        required: [['mainEntity']],
+        recommended: [],
+        check: data => asList(data.mainEntity).flatMap((entity, index) => {
+            const question = asObject(entity);
+            const answer = asObject(asList(question?.acceptedAnswer)[0]);
+            return [
+                ...(hasValue(question?.name) ? [] : [`question ${index + 1} has no name`]),
+                ...(hasValue(answer?.text) ? [] : [`question ${index + 1} has no acceptedAnswer text`])
+            ];
+        })
+    }
+};
+
+// Runs in the page, so everything it needs has to be inside it
+function extractInPage(): StructuredDataResult {
+    const items: StructuredItem[] = [];
+    const parseErrors: string[] = [];
+    const typeName = (value: string) => value.trim().split(/\s+/)[0].replace(/^.*[/:#]/, '');
+    // Runs in the page, so it cannot use asObject from this module
+    const asRecord = (value: unknown) =>
+        value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : undefined;
+    // Where the value of a property lives depends on the element, as in the Microdata spec
+    const attributeValue = (el: Element) => {
+        const tag = el.tagName.toLowerCase();
+        if (el.hasAttribute('content')) return el.getAttribute('content');
+        if (['a', 'link', 'area'].includes(tag) && el.hasAttribute('href')) return (el as HTMLAnchorElement).href;
+        if (['img', 'audio', 'video', 'source', 'iframe', 'embed'].includes(tag) && el.hasAttribute('src')) return (el as HTMLImageElement).src;
+        if (tag === 'time' && el.hasAttribute('datetime')) return el.getAttribute('datetime');
+        return (el.textContent || '').trim();
+    };
+
+    const addProperty = (target: Record<string, unknown>, name: string, value: unknown) => {
+        const existing = target[name];
+        target[name] = existing === undefined ? value : ([] as unknown[]).concat(existing, value);
+    };
+
+    // Walks descendants until the next nested item, which reads its own properties
+    const readItem = (root: Element, scopeAttr: string, typeAttr: string, propAttr: string): Record<string, unknown> => {
+        const data: Record<string, unknown> = { '@type': typeName(root.getAttribute(typeAttr) || '') };
+        const walk = (el: Element) => {
+            for (const child of Array.from(el.children)) {
+                const props = child.getAttribute(propAttr);
+                const nested = child.hasAttribute(scopeAttr);
+                if (props) {
+                    const value = nested ? readItem(child, scopeAttr, typeAttr, propAttr) : attributeValue(child);
+                    props.trim().split(/\s+/).forEach(prop => addProperty(data, prop.replace(/^.*[/:#]/, ''), value));
+                }
+                if (!nested) walk(child);
+            }
+        };
+        walk(root);
+        return data;
+    };
+
+    document.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(script.textContent || '');
+        } catch (e) {
+            parseErrors.push((e as Error).message);
+            return;
+        }
+        const nodes = ([] as unknown[]).concat(parsed).flatMap(node => {
+            const graph = asRecord(node)?.['@graph'];
+            return Array.isArray(graph) ? graph as unknown[] : [node];
+        });
+        for (const node of nodes.map(asRecord)) {
+            if (!node) continue;
+            for (const type of ([] as unknown[]).concat(node['@type'] ?? [])) {
+                if (typeof type === 'string') items.push({ format: 'json-ld', type: typeName(type), data: node });
+            }
+        }
+    });
+
+    document.querySelectorAll('[itemscope]:not([itemprop])').forEach(el => {
+        if (el.getAttribute('itemtype')) {
+            const data = readItem(el, 'itemscope', 'itemtype', 'itemprop');
+            items.push({ format: 'microdata', type: data['@type'] as string, data });
+        }
+    });
+
+    document.querySelectorAll('[typeof]').forEach(el => {
+        // Nested RDFa items are properties of the enclosing one
+        if (el.hasAttribute('property') && el.parentElement?.closest('[typeof]')) return;
+        const data = readItem(el, 'typeof', 'typeof', 'property');
+        items.push({ format: 'rdfa', type: data['@type'] as string, data });
+    });
+
+    return { items, parseErrors };
+}
+
+export async function extractStructuredData(page: Page): Promise<StructuredDataResult> {
+    return page.evaluate(extractInPage);
+}
+
+export function validateStructuredData(result: StructuredDataResult, url: string): Issue[] {
+    const issues: Issue[] = result.parseErrors.map(error => ({
+        category: 'SEO',
+        severity: 'Major',
+        title: 'Invalid JSON-LD',
+        description: `A JSON-LD block could not be parsed (${error}), search engines skip all of it.`,
+        affectedUrl: url
+    }));
+
+    for (const item of result.items) {
+        const rule = RULES[item.type];
+        if (!rule) continue;
+        const label = `${item.type} (${FORMAT_LABELS[item.format]})`;
+
+        const missing = rule.required.filter(options => !options.some(name => hasValue(item.data[name]))).map(options => options.join(' or '));
+        const problems = [...missing.map(name => `missing ${name}`), ...(rule.check?.(item.data) || [])];
+        if (problems.length > 0) {
+            issues.push({
+                category: 'SEO',
+                severity: 'Major',
+                title: 'Invalid Structured Data',
+                description: `${label} is not eligible for rich results: ${problems.join(', ')}.`,
+                affectedUrl: url
+            });
+        }
+
+        const recommended = rule.recommended.filter(name => !hasValue(item.data[name]));
+        if (recommended.length > 0) {
+            issues.push({
+                category: 'SEO',
+                severity: 'Suggestion',
+                title: 'Incomplete Structured Data',
+                description: `${label} is missing recommended properties: ${recommended.join(', ')}.`,
+                affectedUrl: url
+            });
+        }
+    }
+    return issues;
+}
@@ -0,0 +1,178 @@
+import { calculateScore, fingerprintOf, Issue, IssueTriage, ruleIdOf, ScoreReport, TriageStatus } from './scorer';
+import type { ScoringProfile } from './scoringProfiles';
+import { compileRegExp, globToRegExp, MAX_PATTERN_LENGTH } from './crawlScope';
+
+// Statuses a user sets on individual issues, 'ignored' only ever comes from an ignore rule
+export type DecisionStatus = Exclude<TriageStatus, 'ignored'>;
+const DECISION_STATUSES: DecisionStatus[] = ['acknowledged', 'wont_fix', 'false_positive'];
+
+export interface TriageDecision {
+    host: string;
+    fingerprint: string;
+    status: DecisionStatus;
+    note?: string;
+    // What the issue looked like when it was triaged, so decisions can be listed without a scan
+    ruleId: string;
+    title: string;
+    affectedUrl: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+// e.g. ignore "Console Warning" mentioning deprecated on /blog/*
+export interface IgnoreRule {
+    id: string;
+    host: string;
+    // Issue title or rule id, case-insensitive
+    issue: string;
+    // Text the description contains, case-insensitive, or regex:<expression>. Any description when unset
+    description?: string;
+    // Glob matched against path + query, or regex:<expression>. Every page when unset
+    path?: string;
+    note?: string;
+    createdAt: number;
+}
+
+export interface TriageRequest {
+    fingerprints: string[];
+    // 'open' drops earlier decisions
+    status: DecisionStatus | 'open';
+    note?: string;
+}
+
+export type TriageMatcher = (issue: Issue) => IssueTriage | undefined;
+
+// Marks a pattern as a regular expression, `/blog/` is a path and must not turn into the regex blog
+const REGEX_PREFIX = 'regex:';
+
+const MAX_FINGERPRINTS = 500;
+const MAX_NOTE_LENGTH = 500;
+
+function parseNote(value: unknown, field: string): string | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value !== 'string' || value.length > MAX_NOTE_LENGTH) {
+        throw new Error(`${field} must be a string of at most ${MAX_NOTE_LENGTH} characters`);
+    }
+    return value.trim() || undefined;
+}
+
+type PatternField = 'description' | 'path';
+
+function compileTriagePattern(pattern: string, field: PatternField): (value: string) => boolean {
+    if (pattern.startsWith(REGEX_PREFIX)) {
+        const regex = compileRegExp(pattern.slice(REGEX_PREFIX.length), field === 'description' ? 'i' : '');
+        return value => regex.test(value);
+    }
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+        throw new Error(`patterns are limited to ${MAX_PATTERN_LENGTH} characters`);
+    }
+    if (field === 'description') {
+        const text = pattern.toLowerCase();
+        return value => value.toLowerCase().includes(text);
+    }
+    const glob = globToRegExp(pattern);
+    return value => glob.test(value);
+}
+
+function parsePattern(value: unknown, field: PatternField): string | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    if (typeof value !== 'string') {
+        throw new Error(`${field} must be a string`);
+    }
+    try {
+        compileTriagePattern(value.trim(), field);
+    } catch (e) {
+        throw new Error(`${field} is not a valid pattern: ${(e as Error).message}`);
+    }
+    return value.trim();
+}
+
+// Fingerprints must be well-formed and the status known, the fingerprints need not exist in any scan
+export function parseTriageRequest(raw: unknown): TriageRequest {
+    const input = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const { fingerprints, status } = input;
+    if (!Array.isArray(fingerprints) || fingerprints.length === 0 || fingerprints.some(f => typeof f !== 'string' || !/^[0-9a-f]{16}$/.test(f))) {
+        throw new Error('fingerprints must be a non-empty list of issue fingerprints');
+    }
+    if (fingerprints.length > MAX_FINGERPRINTS) {
+        throw new Error(`At most ${MAX_FINGERPRINTS} fingerprints can be triaged at once`);
+    }
+    if (status !== 'open' && !DECISION_STATUSES.includes(status as DecisionStatus)) {
+        throw new Error(`status must be one of open, ${DECISION_STATUSES.join(', ')}`);
+    }
+    return { fingerprints: Array.from(new Set(fingerprints)), status: status as TriageRequest['status'], note: parseNote(input.note, 'note') };
+}
+
+// An ignore rule names the issue and may narrow it with a description and a path pattern
+export function parseIgnoreRule(raw: unknown): Pick<IgnoreRule, 'issue' | 'description' | 'path' | 'note'> {
+    const input = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    if (typeof input.issue !== 'string' || !input.issue.trim()) {
+        throw new Error('issue must name the issue title or rule id to ignore');
+    }
+    return {
+        issue: input.issue.trim(),
+        description: parsePattern(input.description, 'description'),
+        path: parsePattern(input.path, 'path'),
+        note: parseNote(input.note, 'note')
+    };
+}
+
+function pathOf(url: string): string {
+    try {
+        const parsed = new URL(url);
+        return parsed.pathname + parsed.search;
+    } catch {
+        return url;
+    }
+}
+
+// Decisions on the exact issue win over ignore rules
+export function createTriageMatcher(decisions: TriageDecision[], rules: IgnoreRule[]): TriageMatcher {
+    const byFingerprint = new Map(decisions.map(decision => [decision.fingerprint, decision]));
+    const compiled = rules.flatMap(rule => {
+        try {
+            return [{
+                rule,
+                issue: rule.issue.toLowerCase(),
+                description: rule.description ? compileTriagePattern(rule.description, 'description') : undefined,
+                path: rule.path ? compileTriagePattern(rule.path, 'path') : undefined
+            }];
+        } catch (e) {
+            // Stored before the current pattern checks, skipped rather than failing every report
+            console.error(`Ignore rule ${rule.id} is skipped, ${(e as Error).message}`);
+            return [];
+        }
+    });
+
+    return issue => {
+        const decision = issue.fingerprint ? byFingerprint.get(issue.fingerprint) : undefined;
+        if (decision) {
+            return { status: decision.status, note: decision.note };
+        }
+
+        const match = compiled.find(({ issue: name, description, path }) =>
+            (issue.title.toLowerCase() === name || ruleIdOf(issue).toLowerCase() === name) &&
+            (!description || description(issue.description)) &&
+            (!path || path(pathOf(issue.affectedUrl)))
+        );
+        return match ? { status: 'ignored', note: match.rule.note, ignoreRuleId: match.rule.id } : undefined;
+    };
+}
+
+// Re-tags every issue and recomputes page and site scores, so triage done after a scan applies to it too
+export function applyTriage(report: ScoreReport, matcher: TriageMatcher, profile: ScoringProfile): ScoreReport {
+    const tag = (issue: Issue): Issue => {
+        const { triage: _, ...untriaged } = issue;
+        // Reports from before fingerprints existed get theirs on first triage
+        untriaged.fingerprint ??= fingerprintOf(issue);
+        const triage = matcher(untriaged);
+        return triage ? { ...untriaged, triage } : untriaged;
+    };
+
+    const pages = report.pages.map(page => {
+        const issues = page.issues.map(tag);
+        const pageScore = calculateScore(issues, [], profile);
+        return { ...page, issues, score: pageScore.overallScore, categoryScores: pageScore.categories };
+    });
+    return calculateScore(report.details.map(tag), pages, profile);
+}
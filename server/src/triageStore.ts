@@ -0,0 +1,99 @@
+import type { DB } from './db';
+import type { DecisionStatus, IgnoreRule, TriageDecision } from './triage';
+
+export interface TriageRepository {
+    listDecisions(host: string): TriageDecision[];
+    // Inserts or replaces the decision for the fingerprint, keeping its original creation time
+    saveDecision(decision: TriageDecision): void;
+    deleteDecision(host: string, fingerprint: string): boolean;
+    listRules(host: string): IgnoreRule[];
+    createRule(rule: IgnoreRule): void;
+    deleteRule(host: string, ruleId: string): boolean;
+}
+
+interface DecisionRow {
+    host: string;
+    fingerprint: string;
+    status: DecisionStatus;
+    note: string | null;
+    rule_id: string;
+    title: string;
+    affected_url: string;
+    created_at: number;
+    updated_at: number;
+}
+
+interface RuleRow {
+    id: string;
+    host: string;
+    issue: string;
+    description: string | null;
+    path: string | null;
+    note: string | null;
+    created_at: number;
+}
+
+export class SqliteTriageRepository implements TriageRepository {
+    constructor(private db: DB) { }
+
+    listDecisions(host: string): TriageDecision[] {
+        const rows = this.db.prepare('SELECT * FROM triage_decisions WHERE host = ? ORDER BY updated_at DESC').all(host) as DecisionRow[];
+        return rows.map(row => ({
+            host: row.host,
+            fingerprint: row.fingerprint,
+            status: row.status,
+            note: row.note ?? undefined,
+            ruleId: row.rule_id,
+            title: row.title,
+            affectedUrl: row.affected_url,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at
+        }));
+    }
+
+    saveDecision(decision: TriageDecision) {
+        this.db.prepare(`
+            INSERT INTO triage_decisions (host, fingerprint, status, note, rule_id, title, affected_url, created_at, updated_at)
+            VALUES (@host, @fingerprint, @status, @note, @rule_id, @title, @affected_url, @created_at, @updated_at)
+            ON CONFLICT (host, fingerprint) DO UPDATE SET status = excluded.status, note = excluded.note, rule_id = excluded.rule_id,
+                title = excluded.title, affected_url = excluded.affected_url, updated_at = excluded.updated_at
+        `).run({
+            host: decision.host,
+            fingerprint: decision.fingerprint,
+            status: decision.status,
+            note: decision.note ?? null,
+            rule_id: decision.ruleId,
+            title: decision.title,
+            affected_url: decision.affectedUrl,
+            created_at: decision.createdAt,
+            updated_at: decision.updatedAt
+        });
+    }
+
+    deleteDecision(host: string, fingerprint: string): boolean {
+        return this.db.prepare('DELETE FROM triage_decisions WHERE host = ? AND fingerprint = ?').run(host, fingerprint).changes > 0;
+    }
+
+    listRules(host: string): IgnoreRule[] {
+        const rows = this.db.prepare('SELECT * FROM ignore_rules WHERE host = ? ORDER BY created_at ASC').all(host) as RuleRow[];
+        return rows.map(row => ({
+            id: row.id,
+            host: row.host,
+            issue: row.issue,
+            description: row.description ?? undefined,
+            path: row.path ?? undefined,
+            note: row.note ?? undefined,
+            createdAt: row.created_at
+        }));
+    }
+
+    createRule(rule: IgnoreRule) {
+        this.db.prepare(`
+            INSERT INTO ignore_rules (id, host, issue, description, path, note, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)
+        `).run(rule.id, rule.host, rule.issue, rule.description ?? null, rule.path ?? null, rule.note ?? null, rule.createdAt);
+    }
+
+    deleteRule(host: string, ruleId: string): boolean {
+        return this.db.prepare('DELETE FROM ignore_rules WHERE host = ? AND id = ?').run(host, ruleId).changes > 0;
+    }
+}
@@ -0,0 +1,37 @@
+// Lighthouse 9 ships without type declarations, this covers the parts we call.
+declare module 'lighthouse' {
+    interface LighthouseFlags {
+        port: number;
+        output?: 'json' | 'html' | 'csv';
+        logLevel?: 'silent' | 'error' | 'info' | 'verbose';
+        onlyCategories?: string[];
+        disableStorageReset?: boolean;
+    }
+
+    interface LighthouseAudit {
+        id: string;
+        title: string;
+        description: string;
+        score: number | null;
+        scoreDisplayMode: 'numeric' | 'binary' | 'manual' | 'informative' | 'notApplicable' | 'error';
+        displayValue?: string;
+    }
+
+    interface LighthouseCategory {
+        id: string;
+        title: string;
+        score: number | null;
+        auditRefs: { id: string; weight: number }[];
+    }
+
+    interface LighthouseResult {
+        lhr: {
+            categories: Record<string, LighthouseCategory>;
+            audits: Record<string, LighthouseAudit>;
+        };
+    }
+
+    function lighthouse(url: string, flags: LighthouseFlags): Promise<LighthouseResult | undefined>;
+
+    export = lighthouse;
+}
@@ -0,0 +1,144 @@
+import fs from 'fs';
+import path from 'path';
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+
+export interface VisualConfig {
+    // CSS selectors painted over before capturing, for carousels, clocks, ads and the like
+    mask?: string[];
+    // Per-pixel colour distance (0-1) below which pixels count as unchanged
+    tolerance?: number;
+    // Share of changed pixels (0-1) above which an issue is raised
+    threshold?: number;
+}
+
+export const DEFAULT_TOLERANCE = 0.1;
+export const DEFAULT_THRESHOLD = 0.01;
+const MAX_MASKS = 20;
+// Full-page captures are cut off here, a decoded PNG takes four bytes per pixel and the diff holds three of them
+export const MAX_SCREENSHOT_HEIGHT = 10000;
+
+export interface VisualComparison {
+    // Share of pixels that differ, 0-1
+    mismatch: number;
+    width: number;
+    height: number;
+}
+
+// Catches the selectors Playwright would reject on every page: unbalanced brackets and quotes
+function selectorProblem(selector: string): string | undefined {
+    const open: string[] = [];
+    let quote = '';
+    for (let i = 0; i < selector.length; i++) {
+        const ch = selector[i];
+        if (ch === '\\') {
+            i++;
+        } else if (quote) {
+            if (ch === quote) quote = '';
+        } else if (ch === '"' || ch === "'") {
+            quote = ch;
+        } else if (ch === '(' || ch === '[') {
+            open.push(ch === '(' ? ')' : ']');
+        } else if (ch === ')' || ch === ']') {
+            if (open.pop() !== ch) return `unexpected ${ch}`;
+        }
+    }
+    if (quote) return 'unterminated string';
+    if (open.length > 0) return `missing ${open[open.length - 1]}`;
+    return undefined;
+}
+
+// Masks must be a short list of selectors that at least parse, the two thresholds shares between 0 and 1
+export function parseVisualConfig(raw: unknown): VisualConfig {
+    if (raw === undefined || raw === null) return {};
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error('visual must be an object');
+    }
+    const input = raw as Record<string, unknown>;
+    const config: VisualConfig = {};
+
+    if (input.mask !== undefined) {
+        if (!Array.isArray(input.mask) || input.mask.some(v => typeof v !== 'string')) {
+            throw new Error('visual.mask must be a list of CSS selectors');
+        }
+        const mask = input.mask.map(v => v.trim()).filter(Boolean);
+        if (mask.length > MAX_MASKS) {
+            throw new Error(`visual.mask accepts at most ${MAX_MASKS} selectors`);
+        }
+        for (const selector of mask) {
+            const problem = selectorProblem(selector);
+            if (problem) {
+                throw new Error(`visual.mask selector ${selector} is invalid: ${problem}`);
+            }
+        }
+        config.mask = mask;
+    }
+
+    for (const field of ['tolerance', 'threshold'] as const) {
+        if (input[field] === undefined) continue;
+        const value = Number(input[field]);
+        if (Number.isNaN(value) || value < 0 || value > 1) {
+            throw new Error(`visual.${field} must be a number between 0 and 1`);
+        }
+        config[field] = value;
+    }
+
+    return config;
+}
+
+function crop(image: PNG, width: number, height: number): PNG {
+    if (image.width === width && image.height === height) return image;
+    const cropped = new PNG({ width, height });
+    PNG.bitblt(image, cropped, 0, 0, width, height, 0, 0);
+    return cropped;
+}
+
+// Baselines taken before the height cap can be far taller, the IHDR chunk tells without decoding
+function pngHeight(file: string): number {
+    const header = Buffer.alloc(24);
+    const fd = fs.openSync(file, 'r');
+    try {
+        fs.readSync(fd, header, 0, 24, 0);
+    } finally {
+        fs.closeSync(fd);
+    }
+    return header.readUInt32BE(20);
+}
+
+// Full-page captures grow and shrink with the content. Pixels are compared where both
+// images overlap and any area only one of them covers counts as changed, drawn in red.
+export function compareScreenshots(baselineFile: string, currentFile: string, diffFile: string, tolerance = DEFAULT_TOLERANCE): VisualComparison {
+    for (const file of [baselineFile, currentFile]) {
+        const height = pngHeight(file);
+        if (height > MAX_SCREENSHOT_HEIGHT) {
+            throw new Error(`${path.basename(file)} is ${height}px tall, comparisons stop at ${MAX_SCREENSHOT_HEIGHT}px`);
+        }
+    }
+    const baseline = PNG.sync.read(fs.readFileSync(baselineFile));
+    const current = PNG.sync.read(fs.readFileSync(currentFile));
+    const width = Math.max(baseline.width, current.width);
+    const height = Math.max(baseline.height, current.height);
+    const commonWidth = Math.min(baseline.width, current.width);
+    const commonHeight = Math.min(baseline.height, current.height);
+
+    const common = new PNG({ width: commonWidth, height: commonHeight });
+    const changed = pixelmatch(
+        crop(baseline, commonWidth, commonHeight).data,
+        crop(current, commonWidth, commonHeight).data,
+        common.data,
+        commonWidth,
+        commonHeight,
+        { threshold: tolerance }
+    );
+
+    const diff = new PNG({ width, height });
+    for (let i = 0; i < diff.data.length; i += 4) {
+        diff.data[i] = 255;
+        diff.data[i + 3] = 255;
+    }
+    PNG.bitblt(common, diff, 0, 0, commonWidth, commonHeight, 0, 0);
+    fs.writeFileSync(diffFile, PNG.sync.write(diff));
+
+    const uncovered = width * height - commonWidth * commonHeight;
+    return { mismatch: (changed + uncovered) / (width * height), width, height };
+}
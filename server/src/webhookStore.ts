@@ -0,0 +1,183 @@
+import crypto from 'crypto';
+import type { DB } from './db';
+import type { WebhookConfig, WebhookEvent, WebhookSummary } from './webhooks';
+
+export interface RegisteredWebhook extends WebhookConfig {
+    id: string;
+}
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+    id: string;
+    webhookId: string;
+    scanId: string;
+    event: WebhookEvent;
+    url: string;
+    payload: string;
+    status: DeliveryStatus;
+    attempts: number;
+    responseStatus?: number;
+    error?: string;
+    nextAttemptAt?: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface WebhookRepository {
+    register(owner: { scanId?: string; scheduleId?: string }, webhooks: WebhookConfig[]): void;
+    get(webhookId: string): RegisteredWebhook | undefined;
+    // Webhooks of the scan itself plus those of the schedule that started it
+    listForScan(scanId: string, scheduleId?: string): RegisteredWebhook[];
+    listForSchedule(scheduleId: string): WebhookSummary[];
+    createDelivery(delivery: WebhookDelivery): void;
+    updateDelivery(deliveryId: string, update: Partial<WebhookDelivery>): void;
+    dueDeliveries(now: number): WebhookDelivery[];
+    listDeliveries(filter: { scanId?: string; scheduleId?: string }, limit: number): WebhookDelivery[];
+}
+
+interface WebhookRow {
+    id: string;
+    url: string;
+    secret: string;
+    events: string;
+    regressions_only: number;
+}
+
+interface DeliveryRow {
+    id: string;
+    webhook_id: string;
+    scan_id: string;
+    event: WebhookEvent;
+    url: string;
+    payload: string;
+    status: DeliveryStatus;
+    attempts: number;
+    response_status: number | null;
+    error: string | null;
+    next_attempt_at: number | null;
+    created_at: number;
+    updated_at: number;
+}
+
+export class SqliteWebhookRepository implements WebhookRepository {
+    constructor(private db: DB) { }
+
+    register(owner: { scanId?: string; scheduleId?: string }, webhooks: WebhookConfig[]) {
+        const insert = this.db.prepare(`
+            INSERT INTO webhooks (id, scan_id, schedule_id, url, secret, events, regressions_only) VALUES (?, ?, ?, ?, ?, ?, ?)
+        `);
+        this.db.transaction(() => {
+            for (const webhook of webhooks) {
+                insert.run(
+                    crypto.randomUUID(),
+                    owner.scanId ?? null,
+                    owner.scheduleId ?? null,
+                    webhook.url,
+                    webhook.secret,
+                    JSON.stringify(webhook.events),
+                    webhook.regressionsOnly ? 1 : 0
+                );
+            }
+        })();
+    }
+
+    get(webhookId: string): RegisteredWebhook | undefined {
+        const row = this.db.prepare('SELECT * FROM webhooks WHERE id = ?').get(webhookId) as WebhookRow | undefined;
+        return row ? this.fromWebhookRow(row) : undefined;
+    }
+
+    listForScan(scanId: string, scheduleId?: string): RegisteredWebhook[] {
+        const rows = this.db.prepare('SELECT * FROM webhooks WHERE scan_id = ? OR schedule_id = ?').all(scanId, scheduleId ?? null) as WebhookRow[];
+        return rows.map(row => this.fromWebhookRow(row));
+    }
+
+    listForSchedule(scheduleId: string): WebhookSummary[] {
+        const rows = this.db.prepare('SELECT * FROM webhooks WHERE schedule_id = ?').all(scheduleId) as WebhookRow[];
+        return rows.map(row => {
+            const { secret, ...summary } = this.fromWebhookRow(row);
+            return summary;
+        });
+    }
+
+    createDelivery(delivery: WebhookDelivery) {
+        this.db.prepare(`
+            INSERT INTO webhook_deliveries (id, webhook_id, scan_id, event, url, payload, status, attempts, response_status, error, next_attempt_at, created_at, updated_at)
+            VALUES (@id, @webhook_id, @scan_id, @event, @url, @payload, @status, @attempts, @response_status, @error, @next_attempt_at, @created_at, @updated_at)
+        `).run(this.toRow(delivery));
+    }
+
+    updateDelivery(deliveryId: string, update: Partial<WebhookDelivery>) {
+        const row = this.db.prepare('SELECT * FROM webhook_deliveries WHERE id = ?').get(deliveryId) as DeliveryRow | undefined;
+        if (!row) return;
+
+        const next: WebhookDelivery = { ...this.fromRow(row), ...update, id: deliveryId };
+        this.db.prepare(`
+            UPDATE webhook_deliveries SET status = @status, attempts = @attempts, response_status = @response_status, error = @error,
+                next_attempt_at = @next_attempt_at, updated_at = @updated_at
+            WHERE id = @id
+        `).run(this.toRow(next));
+    }
+
+    dueDeliveries(now: number): WebhookDelivery[] {
+        const rows = this.db.prepare(`
+            SELECT * FROM webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at ASC
+        `).all(now) as DeliveryRow[];
+        return rows.map(row => this.fromRow(row));
+    }
+
+    listDeliveries(filter: { scanId?: string; scheduleId?: string }, limit: number): WebhookDelivery[] {
+        const rows = this.db.prepare(`
+            SELECT d.* FROM webhook_deliveries d JOIN webhooks w ON w.id = d.webhook_id
+            WHERE (@scan_id IS NULL OR d.scan_id = @scan_id) AND (@schedule_id IS NULL OR w.schedule_id = @schedule_id)
+            ORDER BY d.created_at DESC LIMIT @limit
+        `).all({ scan_id: filter.scanId ?? null, schedule_id: filter.scheduleId ?? null, limit }) as DeliveryRow[];
+        return rows.map(row => this.fromRow(row));
+    }
+
+    private fromWebhookRow(row: WebhookRow): RegisteredWebhook {
+        return {
+            id: row.id,
+            url: row.url,
+            secret: row.secret,
+            events: JSON.parse(row.events),
+            regressionsOnly: row.regressions_only === 1
+        };
+    }
+
+    private toRow(delivery: WebhookDelivery): DeliveryRow {
+        return {
+            id: delivery.id,
+            webhook_id: delivery.webhookId,
+            scan_id: delivery.scanId,
+            event: delivery.event,
+            url: delivery.url,
+            payload: delivery.payload,
+            status: delivery.status,
+            attempts: delivery.attempts,
+            response_status: delivery.responseStatus ?? null,
+            error: delivery.error ?? null,
+            next_attempt_at: delivery.nextAttemptAt ?? null,
+            created_at: delivery.createdAt,
+            updated_at: delivery.updatedAt
+        };
+    }
+
+    private fromRow(row: DeliveryRow): WebhookDelivery {
+        return {
+            id: row.id,
+            webhookId: row.webhook_id,
+            scanId: row.scan_id,
+            event: row.event,
+            url: row.url,
+            payload: row.payload,
+            status: row.status,
+            attempts: row.attempts,
+            responseStatus: row.response_status ?? undefined,
+            error: row.error ?? undefined,
+            nextAttemptAt: row.next_attempt_at ?? undefined,
+            createdAt: row.created_at,
+            updatedAt: row.updated_at
+        };
+    }
+}
@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+import http from 'http';
+import https from 'https';
+import type { Issue, ScoreReport } from './scorer';
+import type { ScanState } from './scanStore';
+import { diffReports } from './diff';
+
+export type WebhookEvent = 'COMPLETE' | 'FAILED';
+
+export interface WebhookConfig {
+    url: string;
+    // HMAC-SHA256 key for the signature header, falls back to WEBHOOK_SECRET
+    secret: string;
+    events: WebhookEvent[];
+    // Only send COMPLETE when the overall score dropped or new Critical issues appeared
+    regressionsOnly?: boolean;
+}
+
+// What the API shows of a registered webhook, never the secret
+export type WebhookSummary = Omit<WebhookConfig, 'secret'> & { id: string };
+
+export const SIGNATURE_HEADER = 'X-WebsiteCheck-Signature';
+const DEFAULT_SECRET = process.env.WEBHOOK_SECRET || '';
+const MAX_WEBHOOKS = 5;
+const REQUEST_TIMEOUT = 10000;
+
+// Delay before each retry, a delivery is given up after the last one
+export const RETRY_DELAYS = [30 * 1000, 2 * 60 * 1000, 10 * 60 * 1000, 30 * 60 * 1000, 2 * 60 * 60 * 1000];
+
+// Each webhook needs an http(s) URL, a secret long enough to sign with and only known events
+export function parseWebhooks(raw: unknown): WebhookConfig[] {
+    if (raw === undefined || raw === null) return [];
+    if (!Array.isArray(raw)) {
+        throw new Error('webhooks must be a list');
+    }
+    if (raw.length > MAX_WEBHOOKS) {
+        throw new Error(`At most ${MAX_WEBHOOKS} webhooks can be registered`);
+    }
+
+    return raw.map((value: unknown, i) => {
+        const field = `webhooks[${i}]`;
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            throw new Error(`${field} must be an object`);
+        }
+        const input = value as Record<string, unknown>;
+
+        try {
+            if (typeof input.url !== 'string') throw new Error();
+            const url = new URL(input.url);
+            if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error();
+        } catch {
+            throw new Error(`${field}.url must be an http(s) URL`);
+        }
+
+        const secret = input.secret === undefined ? DEFAULT_SECRET : input.secret;
+        if (typeof secret !== 'string' || secret.length < 16) {
+            throw new Error(`${field}.secret must be at least 16 characters`);
+        }
+
+        const events = input.events === undefined ? ['COMPLETE', 'FAILED'] : input.events;
+        if (!Array.isArray(events) || events.length === 0 || events.some(e => e !== 'COMPLETE' && e !== 'FAILED')) {
+            throw new Error(`${field}.events must list COMPLETE and/or FAILED`);
+        }
+
+        const regressionsOnly = input.regressionsOnly === undefined ? false : input.regressionsOnly;
+        if (typeof regressionsOnly !== 'boolean') {
+            throw new Error(`${field}.regressionsOnly must be true or false`);
+        }
+
+        return { url: input.url, secret, events: Array.from(new Set(events as WebhookEvent[])), regressionsOnly };
+    });
+}
+
+export interface Regression {
+    previousScanId: string;
+    previousScore: number;
+    scoreDelta: number;
+    newCriticalIssues: Issue[];
+    // True when the score dropped or a Critical issue is new
+    regressed: boolean;
+}
+
+// Compares against the last completed scan of the same URL, null for a first scan
+export function detectRegression(previous: ScanState | undefined, report: ScoreReport): Regression | null {
+    if (!previous?.report) return null;
+    const diff = diffReports(previous.report, report);
+    const newCriticalIssues = diff.issues.new.filter(issue => issue.severity === 'Critical' && !issue.triage);
+    return {
+        previousScanId: previous.id,
+        previousScore: previous.report.overallScore,
+        scoreDelta: diff.overall.delta,
+        newCriticalIssues,
+        regressed: diff.overall.delta < 0 || newCriticalIssues.length > 0
+    };
+}
+
+export function buildPayload(deliveryId: string, scan: ScanState, regression: Regression | null) {
+    const report = scan.report;
+    return {
+        id: deliveryId,
+        event: scan.status === 'COMPLETE' ? 'scan.complete' : 'scan.failed',
+        scan: {
+            id: scan.id,
+            url: scan.url,
+            status: scan.status,
+            message: scan.message,
+            timestamp: new Date(scan.timestamp).toISOString(),
+            scheduleId: scan.scheduleId
+        },
+        // A summary only, the full report is one GET /api/scan/:scanId away
+        report: report && {
+            overallScore: report.overallScore,
+            categories: report.categories,
+            pages: report.pages.length,
+            issues: (['Critical', 'Major', 'Minor', 'Suggestion'] as Issue['severity'][]).reduce(
+                (counts, severity) => ({ ...counts, [severity]: report.details.filter(issue => issue.severity === severity && !issue.triage).length }),
+                {} as Record<Issue['severity'], number>
+            )
+        },
+        regression
+    };
+}
+
+// Receivers recompute this over `${timestamp}.${body}` and reject stale timestamps to stop replays
+export function signPayload(secret: string, timestamp: number, body: string): string {
+    return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+export function postWebhook(url: string, body: string, headers: Record<string, string>): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const target = new URL(url);
+        const request = (target.protocol === 'https:' ? https : http).request(target, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'Content-Length': Buffer.byteLength(body).toString(),
+                'User-Agent': 'WebsiteCheck-Webhooks',
+                ...headers
+            },
+            timeout: REQUEST_TIMEOUT
+        }, response => {
+            // Drain the body so the socket is released
+            response.resume();
+            response.on('end', () => resolve(response.statusCode || 0));
+        });
+        request.on('timeout', () => request.destroy(new Error(`Timed out after ${REQUEST_TIMEOUT}ms`)));
+        request.on('error', reject);
+        request.end(body);
+    });
+}